@@ -0,0 +1,164 @@
+/**
+ * Unit tests for build and deploy result discovery
+ */
+import { jest, describe, it, expect, beforeEach } from '@jest/globals'
+
+const mockExistsSync = jest.fn()
+const mockReadFileSync = jest.fn()
+const mockWriteFileSync = jest.fn()
+
+jest.unstable_mockModule('fs', () => ({
+  existsSync: mockExistsSync,
+  readFileSync: mockReadFileSync,
+  writeFileSync: mockWriteFileSync
+}))
+
+// Import the module after mocking
+const {
+  buildEnclaveIds,
+  deploymentDetails,
+  discoverBundle,
+  fileDigest,
+  workflowRun,
+  writeProvenance
+} = await import('../src/artifacts.js')
+
+const MANIFEST = {
+  name: 'my-app',
+  deployments: {
+    testnet: {
+      app_id: 'rofl1qpjsc3qplf2szw7w3rpzrpq5rqvzv4q5x5j23msu',
+      policy: { enclaves: [{ id: 'FROM_YAML' }] },
+      machines: {
+        default: {
+          provider: 'oasis1qp2ens0hsp7gh23wajxa4hpetkdek3swyyulyrmz',
+          offer: 'playground_short',
+          id: '0000000000000014'
+        }
+      }
+    }
+  }
+}
+
+describe('artifacts module', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockExistsSync.mockReturnValue(false)
+  })
+
+  describe('discoverBundle', () => {
+    it('should read the bundle path from the build output', () => {
+      expect(
+        discoverBundle(
+          "ROFL app built and bundle written to 'out/app.orc'.\n",
+          MANIFEST,
+          'testnet'
+        )
+      ).toBe('out/app.orc')
+    })
+
+    it('should fall back to the default bundle name if it exists', () => {
+      mockExistsSync.mockImplementation((p) => p === 'my-app.testnet.orc')
+
+      expect(discoverBundle('', MANIFEST, 'testnet')).toBe('my-app.testnet.orc')
+      expect(discoverBundle('', MANIFEST, 'mainnet')).toBeUndefined()
+      expect(discoverBundle('', undefined, 'testnet')).toBeUndefined()
+    })
+  })
+
+  describe('buildEnclaveIds', () => {
+    it('should prefer the IDs listed in the build output', () => {
+      expect(
+        buildEnclaveIds(
+          'Built enclave identities:\n  - FROM_BUILD\n',
+          MANIFEST,
+          'testnet'
+        )
+      ).toEqual(['FROM_BUILD'])
+    })
+
+    it('should fall back to the deployment policy in rofl.yaml', () => {
+      expect(buildEnclaveIds('', MANIFEST, 'testnet')).toEqual(['FROM_YAML'])
+      expect(buildEnclaveIds('', undefined, 'testnet')).toEqual([])
+    })
+  })
+
+  describe('deploymentDetails', () => {
+    it('should read the app ID and machine from rofl.yaml', () => {
+      expect(deploymentDetails(MANIFEST, 'testnet')).toEqual({
+        app_id: 'rofl1qpjsc3qplf2szw7w3rpzrpq5rqvzv4q5x5j23msu',
+        machine_id: '0000000000000014',
+        provider: 'oasis1qp2ens0hsp7gh23wajxa4hpetkdek3swyyulyrmz'
+      })
+    })
+
+    it('should leave out details that are not set', () => {
+      expect(deploymentDetails(MANIFEST, 'testnet', 'other')).toEqual({
+        app_id: 'rofl1qpjsc3qplf2szw7w3rpzrpq5rqvzv4q5x5j23msu',
+        machine_id: undefined,
+        provider: undefined
+      })
+      expect(deploymentDetails({}, 'testnet')).toEqual({
+        app_id: undefined,
+        machine_id: undefined,
+        provider: undefined
+      })
+    })
+  })
+
+  describe('provenance', () => {
+    it('should compute the sha256 digest of a file', () => {
+      mockReadFileSync.mockReturnValue(Buffer.from('abc'))
+
+      expect(fileDigest('app.orc')).toBe(
+        'sha256:ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+      )
+    })
+
+    it('should describe the workflow run', () => {
+      expect(
+        workflowRun({
+          GITHUB_SERVER_URL: 'https://github.com',
+          GITHUB_REPOSITORY: 'org/app',
+          GITHUB_WORKFLOW: 'deploy',
+          GITHUB_RUN_ID: '42',
+          GITHUB_RUN_ATTEMPT: '2'
+        })
+      ).toEqual({
+        repository: 'org/app',
+        workflow: 'deploy',
+        run_id: '42',
+        run_attempt: '2',
+        url: 'https://github.com/org/app/actions/runs/42'
+      })
+      expect(workflowRun({}).url).toBeUndefined()
+    })
+
+    it('should write the provenance next to the bundle', () => {
+      const file = writeProvenance({
+        bundle: 'out/app.orc',
+        bundle_digest: 'sha256:00',
+        deployment: 'testnet',
+        cli_version: '0.18.1',
+        manifest: 'rofl.yaml',
+        enclave_ids: ['ID1'],
+        builder: 'container',
+        workflow_run: {},
+        created_at: '2025-01-01T00:00:00.000Z'
+      })
+
+      expect(file).toBe('out/app.orc.provenance.json')
+      const [path, content] = mockWriteFileSync.mock.calls[0] as [
+        string,
+        string
+      ]
+      expect(path).toBe('out/app.orc.provenance.json')
+      expect(JSON.parse(content)).toEqual(
+        expect.objectContaining({
+          bundle_digest: 'sha256:00',
+          builder: 'container'
+        })
+      )
+    })
+  })
+})
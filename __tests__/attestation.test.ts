@@ -0,0 +1,131 @@
+/**
+ * Unit tests for the in-toto / SLSA provenance statement
+ */
+import { jest, describe, it, expect, beforeEach } from '@jest/globals'
+
+const mockWriteFileSync = jest.fn()
+
+jest.unstable_mockModule('fs', () => ({
+  existsSync: jest.fn(),
+  readFileSync: jest.fn(),
+  writeFileSync: mockWriteFileSync
+}))
+
+// Import the module after mocking
+const { buildStatement, writeStatement, SLSA_PROVENANCE_TYPE, STATEMENT_TYPE } =
+  await import('../src/attestation.js')
+
+const CLI = {
+  path: '/opt/hostedtoolcache/oasis/0.18.1/amd64',
+  version: '0.18.1',
+  source: 'pinned' as const,
+  requested: '0.18.1',
+  tarball:
+    'https://github.com/oasisprotocol/cli/releases/download/v0.18.1/oasis_cli_0.18.1_linux_amd64.tar.gz',
+  sha256: 'c11'
+}
+
+const ENV = {
+  GITHUB_SERVER_URL: 'https://github.com',
+  GITHUB_REPOSITORY: 'org/app',
+  GITHUB_REF: 'refs/heads/main',
+  GITHUB_SHA: 'abc123',
+  GITHUB_RUN_ID: '42',
+  GITHUB_RUN_ATTEMPT: '1',
+  GITHUB_ACTION_REPOSITORY: 'oasisprotocol/build-deploy-rofl-action',
+  GITHUB_ACTION_REF: 'v1'
+}
+
+describe('attestation module', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should use the bundle digest as the subject', () => {
+    const statement = buildStatement({
+      bundle: 'out/app.default.orc',
+      bundleDigest: 'sha256:0123',
+      deployment: 'default',
+      inputs: { walletSecret: '***' },
+      cli: CLI,
+      env: ENV
+    })
+
+    expect(statement._type).toBe(STATEMENT_TYPE)
+    expect(statement.predicateType).toBe(SLSA_PROVENANCE_TYPE)
+    expect(statement.subject).toEqual([
+      { name: 'app.default.orc', digest: { sha256: '0123' } }
+    ])
+  })
+
+  it('should record the builder, redacted inputs and materials', () => {
+    const { predicate } = buildStatement({
+      bundle: 'app.orc',
+      bundleDigest: 'sha256:0123',
+      deployment: 'testnet',
+      inputs: { network: 'testnet', walletSecret: '***' },
+      cli: CLI,
+      env: ENV
+    })
+
+    expect(predicate.runDetails.builder).toEqual({
+      id: 'https://github.com/oasisprotocol/build-deploy-rofl-action@v1',
+      version: { 'oasisprotocol/build-deploy-rofl-action': 'v1' }
+    })
+    expect(predicate.runDetails.metadata?.invocationId).toBe(
+      'https://github.com/org/app/actions/runs/42/attempts/1'
+    )
+    expect(predicate.buildDefinition.externalParameters).toEqual({
+      deployment: 'testnet',
+      inputs: { network: 'testnet', walletSecret: '***' }
+    })
+    expect(predicate.buildDefinition.resolvedDependencies).toEqual([
+      {
+        uri: 'git+https://github.com/org/app@refs/heads/main',
+        digest: { gitCommit: 'abc123' }
+      },
+      {
+        name: 'oasis-cli@0.18.1',
+        uri: CLI.tarball,
+        digest: { sha256: 'c11' }
+      }
+    ])
+  })
+
+  it('should leave out materials that are not known', () => {
+    const { predicate } = buildStatement({
+      bundle: 'app.orc',
+      bundleDigest: 'sha256:0123',
+      deployment: 'default',
+      inputs: {},
+      cli: { ...CLI, sha256: undefined },
+      env: {}
+    })
+
+    expect(predicate.buildDefinition.resolvedDependencies).toEqual([
+      { name: 'oasis-cli@0.18.1', uri: CLI.tarball }
+    ])
+    expect(predicate.runDetails.builder.id).toBe(
+      'https://github.com/oasisprotocol/build-deploy-rofl-action@unknown'
+    )
+  })
+
+  it('should write the statement next to the bundle', () => {
+    const statement = buildStatement({
+      bundle: 'out/app.orc',
+      bundleDigest: 'sha256:0123',
+      deployment: 'default',
+      inputs: {},
+      cli: CLI,
+      env: ENV
+    })
+
+    expect(writeStatement('out/app.orc', statement)).toBe(
+      'out/app.orc.intoto.json'
+    )
+    expect(mockWriteFileSync).toHaveBeenCalledWith(
+      'out/app.orc.intoto.json',
+      `${JSON.stringify(statement, null, 2)}\n`
+    )
+  })
+})
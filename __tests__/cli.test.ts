@@ -1,36 +1,110 @@
 /**
  * Unit tests for the Oasis CLI installation module
  */
-import { jest, describe, it, expect, beforeEach } from '@jest/globals'
+import {
+  jest,
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach
+} from '@jest/globals'
+import { createHash } from 'crypto'
 
 // Mock the @actions modules before importing the module under test
 const mockInfo = jest.fn()
 const mockDebug = jest.fn()
+const mockWarning = jest.fn()
 const mockAddPath = jest.fn()
 const mockDownloadTool = jest.fn()
 const mockExtractTar = jest.fn()
+const mockFind = jest.fn()
+const mockCacheDir = jest.fn()
+const mockExistsSync = jest.fn()
+const mockReadFileSync = jest.fn()
+const mockWriteFileSync = jest.fn()
 
 jest.unstable_mockModule('@actions/core', () => ({
   info: mockInfo,
   debug: mockDebug,
+  warning: mockWarning,
   addPath: mockAddPath
 }))
 
 jest.unstable_mockModule('@actions/tool-cache', () => ({
   downloadTool: mockDownloadTool,
-  extractTar: mockExtractTar
+  extractTar: mockExtractTar,
+  find: mockFind,
+  cacheDir: mockCacheDir
+}))
+
+jest.unstable_mockModule('fs', () => ({
+  existsSync: mockExistsSync,
+  readFileSync: mockReadFileSync,
+  writeFileSync: mockWriteFileSync
 }))
 
 // Import the module after mocking
 const { installOasisCLI, getDefaultCLIVersion } = await import('../src/cli.js')
 
-// Mock fetch for getLatestVersion
+// Mock fetch for getLatestVersion and the release checksums file
 const mockFetch = jest.fn() as jest.MockedFunction<typeof fetch>
 global.fetch = mockFetch
 
+// Contents of the "downloaded" tarball and its digest
+const TARBALL = Buffer.from('oasis cli tarball')
+const TARBALL_SHA256 = createHash('sha256').update(TARBALL).digest('hex')
+
+// Release asset suffix for the platform running the tests
+const PLATFORM_ARCH = `${process.platform === 'darwin' ? 'darwin' : 'linux'}_${
+  process.arch === 'arm64' ? 'arm64' : 'amd64'
+}`
+
+/**
+ * Mock fetch responses for the GitHub API and the release checksums file
+ */
+function mockReleases(
+  latestTag: string,
+  checksums: string,
+  releases: Array<{ tag_name: string; draft?: boolean }> = []
+): void {
+  mockFetch.mockImplementation(async (input) => {
+    const url = String(input)
+    if (url.endsWith('_checksums.txt')) {
+      return {
+        ok: true,
+        text: async () => checksums
+      } as Response
+    }
+    if (url.includes('/releases?')) {
+      return {
+        ok: true,
+        json: async () => releases
+      } as Response
+    }
+    return {
+      ok: true,
+      json: async () => ({ tag_name: latestTag })
+    } as Response
+  })
+}
+
 describe('cli module', () => {
   beforeEach(() => {
     jest.clearAllMocks()
+    // Default: no rofl.yaml, tarball reads back as TARBALL
+    mockExistsSync.mockReturnValue(false)
+    mockReadFileSync.mockReturnValue(TARBALL)
+    // Default: empty tool cache, caching returns the cached directory
+    mockFind.mockReturnValue('')
+    mockCacheDir.mockResolvedValue('/opt/hostedtoolcache/oasis/0.19.0/amd64')
+    // Default: checksums file lists the tarball for every platform
+    mockReleases(
+      'v0.19.0',
+      ['linux_amd64', 'linux_arm64', 'darwin_amd64', 'darwin_arm64']
+        .map((p) => `${TARBALL_SHA256}  oasis_cli_0.19.0_${p}.tar.gz`)
+        .join('\n')
+    )
   })
 
   describe('getDefaultCLIVersion', () => {
@@ -42,11 +116,6 @@ describe('cli module', () => {
 
   describe('installOasisCLI', () => {
     it('should resolve latest version and install', async () => {
-      // Mock GitHub API response
-      mockFetch.mockResolvedValue({
-        ok: true,
-        json: async () => ({ tag_name: 'v0.19.0' })
-      } as Response)
       mockDownloadTool.mockResolvedValue('/tmp/downloaded.tar.gz')
       mockExtractTar.mockResolvedValue('/tmp/extracted')
 
@@ -74,9 +143,9 @@ describe('cli module', () => {
       mockDownloadTool.mockResolvedValue('/tmp/downloaded.tar.gz')
       mockExtractTar.mockResolvedValue('/tmp/extracted')
 
-      await installOasisCLI('0.16.0')
+      await installOasisCLI('0.16.0', { sha256: TARBALL_SHA256 })
 
-      // Should NOT call fetch for specific version
+      // Should NOT query the GitHub API for a specific version
       expect(mockFetch).not.toHaveBeenCalled()
 
       expect(mockDownloadTool).toHaveBeenCalledWith(
@@ -87,6 +156,102 @@ describe('cli module', () => {
       )
     })
 
+    it('should resolve a semver range to the highest matching release', async () => {
+      mockReleases(
+        'v0.20.0',
+        `${TARBALL_SHA256}  oasis_cli_0.18.3_${PLATFORM_ARCH}.tar.gz`,
+        [
+          { tag_name: 'v0.20.0' },
+          { tag_name: 'v0.19.0' },
+          { tag_name: 'v0.18.4', draft: true },
+          { tag_name: 'v0.18.3' },
+          { tag_name: 'v0.18.2' },
+          { tag_name: 'v0.18.4-rc.1' }
+        ]
+      )
+      mockDownloadTool.mockResolvedValue('/tmp/downloaded.tar.gz')
+      mockExtractTar.mockResolvedValue('/tmp/extracted')
+
+      await installOasisCLI('~0.18.2')
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'https://api.github.com/repos/oasisprotocol/cli/releases?per_page=100'
+        ),
+        expect.any(Object)
+      )
+      expect(mockDownloadTool).toHaveBeenCalledWith(
+        expect.stringContaining('oasis_cli_0.18.3_')
+      )
+      expect(mockInfo).toHaveBeenCalledWith(
+        'Resolved CLI version range ~0.18.2 to 0.18.3'
+      )
+    })
+
+    it('should report where the installed version came from', async () => {
+      mockReleases(
+        'v0.18.3',
+        `${TARBALL_SHA256}  oasis_cli_0.18.3_${PLATFORM_ARCH}.tar.gz`
+      )
+      mockFind.mockReturnValue('/opt/hostedtoolcache/oasis/0.18.3/amd64')
+
+      expect(await installOasisCLI('latest')).toEqual({
+        path: '/opt/hostedtoolcache/oasis/0.18.3/amd64',
+        version: '0.18.3',
+        source: 'latest',
+        tarball: `https://github.com/oasisprotocol/cli/releases/download/v0.18.3/oasis_cli_0.18.3_${PLATFORM_ARCH}.tar.gz`
+      })
+      expect(await installOasisCLI('0.18.3')).toEqual(
+        expect.objectContaining({ source: 'pinned', requested: '0.18.3' })
+      )
+    })
+
+    it('should resolve a range from rofl.yaml tooling.version', async () => {
+      mockReleases(
+        'v0.20.0',
+        `${TARBALL_SHA256}  oasis_cli_0.19.1_${PLATFORM_ARCH}.tar.gz`,
+        [
+          { tag_name: 'v0.20.0' },
+          { tag_name: 'v0.19.1' },
+          { tag_name: 'v0.18.0' }
+        ]
+      )
+      mockExistsSync.mockImplementation((p) => p === 'rofl.yaml')
+      mockReadFileSync.mockImplementation((p) =>
+        p === 'rofl.yaml' ? "tooling:\n  version: '>=0.18 <0.20'\n" : TARBALL
+      )
+      mockDownloadTool.mockResolvedValue('/tmp/downloaded.tar.gz')
+      mockExtractTar.mockResolvedValue('/tmp/extracted')
+
+      const cli = await installOasisCLI('auto')
+
+      expect(mockDownloadTool).toHaveBeenCalledWith(
+        expect.stringContaining('oasis_cli_0.19.1_')
+      )
+      expect(cli).toEqual(
+        expect.objectContaining({
+          version: '0.19.1',
+          source: 'auto',
+          requested: '>=0.18 <0.20'
+        })
+      )
+    })
+
+    it('should fail when no release satisfies the range', async () => {
+      mockReleases('v0.19.0', '', [{ tag_name: 'v0.19.0' }])
+
+      await expect(installOasisCLI('^0.25')).rejects.toThrow(
+        'No Oasis CLI release satisfies version range ^0.25'
+      )
+      expect(mockDownloadTool).not.toHaveBeenCalled()
+    })
+
+    it('should reject an invalid version', async () => {
+      await expect(installOasisCLI('newest')).rejects.toThrow(
+        'Invalid CLI version "newest"'
+      )
+    })
+
     it('should handle download errors', async () => {
       mockDownloadTool.mockRejectedValue(new Error('Download failed'))
 
@@ -100,4 +265,406 @@ describe('cli module', () => {
       await expect(installOasisCLI()).rejects.toThrow('Extraction failed')
     })
   })
+
+  describe('tool cache', () => {
+    it('should reuse a cached CLI without downloading', async () => {
+      mockFind.mockReturnValue('/opt/hostedtoolcache/oasis/0.19.0/amd64')
+
+      const cli = await installOasisCLI('0.19.0')
+
+      expect(mockFind).toHaveBeenCalledWith(
+        'oasis',
+        '0.19.0',
+        expect.any(String)
+      )
+      expect(cli.path).toBe('/opt/hostedtoolcache/oasis/0.19.0/amd64')
+      expect(mockAddPath).toHaveBeenCalledWith(
+        '/opt/hostedtoolcache/oasis/0.19.0/amd64'
+      )
+      expect(mockDownloadTool).not.toHaveBeenCalled()
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(mockInfo).toHaveBeenCalledWith(
+        expect.stringContaining('Tool cache hit: Oasis CLI 0.19.0')
+      )
+    })
+
+    it('should download and register the CLI on a cache miss', async () => {
+      mockDownloadTool.mockResolvedValue('/tmp/downloaded.tar.gz')
+      mockExtractTar.mockResolvedValue('/tmp/extracted')
+
+      const cli = await installOasisCLI('0.19.0')
+
+      expect(mockInfo).toHaveBeenCalledWith(
+        expect.stringContaining('Tool cache miss: Oasis CLI 0.19.0')
+      )
+      expect(mockCacheDir).toHaveBeenCalledWith(
+        expect.stringMatching(/^\/tmp\/extracted\/oasis_cli_0\.19\.0_/),
+        'oasis',
+        '0.19.0',
+        expect.any(String)
+      )
+      expect(cli.path).toBe('/opt/hostedtoolcache/oasis/0.19.0/amd64')
+      expect(mockAddPath).toHaveBeenCalledWith(cli.path)
+    })
+
+    it('should remember the tarball digest for later cache hits', async () => {
+      mockDownloadTool.mockResolvedValue('/tmp/downloaded.tar.gz')
+      mockExtractTar.mockResolvedValue('/tmp/extracted')
+
+      const installed = await installOasisCLI('0.19.0')
+
+      expect(installed.sha256).toBe(TARBALL_SHA256)
+      expect(mockWriteFileSync).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /^\/tmp\/extracted\/oasis_cli_0\.19\.0_.*\/oasis_cli\.sha256$/
+        ),
+        `${TARBALL_SHA256}\n`
+      )
+
+      const cachedDir = '/opt/hostedtoolcache/oasis/0.19.0/amd64'
+      mockFind.mockReturnValue(cachedDir)
+      mockExistsSync.mockImplementation(
+        (p) => p === `${cachedDir}/oasis_cli.sha256`
+      )
+      mockReadFileSync.mockReturnValue(`${TARBALL_SHA256}\n`)
+
+      const cached = await installOasisCLI('0.19.0')
+
+      expect(cached.sha256).toBe(TARBALL_SHA256)
+    })
+
+    it('should reuse a cached CLI that matches the pinned digest', async () => {
+      const cachedDir = '/opt/hostedtoolcache/oasis/0.19.0/amd64'
+      mockFind.mockReturnValue(cachedDir)
+      mockExistsSync.mockImplementation(
+        (p) => p === `${cachedDir}/oasis_cli.sha256`
+      )
+      mockReadFileSync.mockReturnValue(`${TARBALL_SHA256}\n`)
+
+      const cli = await installOasisCLI('0.19.0', {
+        sha256: TARBALL_SHA256.toUpperCase()
+      })
+
+      expect(cli.path).toBe(cachedDir)
+      expect(mockDownloadTool).not.toHaveBeenCalled()
+    })
+
+    it('should download again when the cached digest differs from cli_sha256', async () => {
+      const cachedDir = '/opt/hostedtoolcache/oasis/0.19.0/amd64'
+      mockFind.mockReturnValue(cachedDir)
+      mockExistsSync.mockImplementation(
+        (p) => p === `${cachedDir}/oasis_cli.sha256`
+      )
+      mockReadFileSync.mockImplementation((p) =>
+        p === `${cachedDir}/oasis_cli.sha256` ? `${'0'.repeat(64)}\n` : TARBALL
+      )
+      mockDownloadTool.mockResolvedValue('/tmp/downloaded.tar.gz')
+      mockExtractTar.mockResolvedValue('/tmp/extracted')
+
+      const cli = await installOasisCLI('0.19.0', { sha256: TARBALL_SHA256 })
+
+      expect(mockWarning).toHaveBeenCalledWith(
+        expect.stringContaining('not the pinned cli_sha256')
+      )
+      expect(mockDownloadTool).toHaveBeenCalled()
+      expect(cli.sha256).toBe(TARBALL_SHA256)
+    })
+
+    it('should refuse a cached CLI when the pinned digest does not match the download', async () => {
+      mockFind.mockReturnValue('/opt/hostedtoolcache/oasis/0.19.0/amd64')
+      mockDownloadTool.mockResolvedValue('/tmp/downloaded.tar.gz')
+
+      await expect(
+        installOasisCLI('0.19.0', { sha256: 'f'.repeat(64) })
+      ).rejects.toThrow('Checksum mismatch')
+      expect(mockAddPath).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('checksum verification', () => {
+    beforeEach(() => {
+      mockDownloadTool.mockResolvedValue('/tmp/downloaded.tar.gz')
+      mockExtractTar.mockResolvedValue('/tmp/extracted')
+    })
+
+    it('should verify the tarball against the release checksums file', async () => {
+      await installOasisCLI('0.19.0')
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://github.com/oasisprotocol/cli/releases/download/v0.19.0/oasis_cli_0.19.0_checksums.txt',
+        expect.any(Object)
+      )
+      expect(mockInfo).toHaveBeenCalledWith(
+        `Checksum verified: sha256:${TARBALL_SHA256}`
+      )
+      expect(mockExtractTar).toHaveBeenCalled()
+    })
+
+    it('should fail before extracting when the digest does not match', async () => {
+      mockReadFileSync.mockReturnValue(Buffer.from('tampered'))
+
+      await expect(installOasisCLI('0.19.0')).rejects.toThrow(
+        'Checksum mismatch for oasis_cli_0.19.0_'
+      )
+      expect(mockExtractTar).not.toHaveBeenCalled()
+      expect(mockAddPath).not.toHaveBeenCalled()
+    })
+
+    it('should fail when the tarball is missing from the checksums file', async () => {
+      mockReleases('v0.19.0', `${TARBALL_SHA256}  some_other_file.tar.gz`)
+
+      await expect(installOasisCLI('0.19.0')).rejects.toThrow(
+        'No checksum for oasis_cli_0.19.0_'
+      )
+      expect(mockExtractTar).not.toHaveBeenCalled()
+    })
+
+    it('should fail when the checksums file cannot be fetched', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found'
+      } as Response)
+
+      await expect(installOasisCLI('0.19.0')).rejects.toThrow(
+        'Failed to fetch checksums file: 404 Not Found'
+      )
+    })
+
+    it('should use a pinned cli_sha256 instead of the checksums file', async () => {
+      await installOasisCLI('0.19.0', {
+        sha256: TARBALL_SHA256.toUpperCase()
+      })
+
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(mockExtractTar).toHaveBeenCalled()
+    })
+
+    it('should reject a malformed pinned cli_sha256', async () => {
+      await expect(
+        installOasisCLI('0.19.0', { sha256: 'abc123' })
+      ).rejects.toThrow('Invalid cli_sha256')
+      expect(mockExtractTar).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('mirror and local archive', () => {
+    beforeEach(() => {
+      mockDownloadTool.mockResolvedValue('/tmp/downloaded.tar.gz')
+      mockExtractTar.mockResolvedValue('/tmp/extracted')
+    })
+
+    it('should download the tarball and checksums from the mirror', async () => {
+      await installOasisCLI('0.19.0', {
+        downloadBaseUrl: 'https://mirror.internal/oasis-cli/'
+      })
+
+      expect(mockDownloadTool).toHaveBeenCalledWith(
+        `https://mirror.internal/oasis-cli/v0.19.0/oasis_cli_0.19.0_${PLATFORM_ARCH}.tar.gz`
+      )
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://mirror.internal/oasis-cli/v0.19.0/oasis_cli_0.19.0_checksums.txt',
+        expect.any(Object)
+      )
+      expect(mockFetch).not.toHaveBeenCalledWith(
+        expect.stringContaining('github.com'),
+        expect.anything()
+      )
+    })
+
+    it('should refuse to resolve latest from a mirror', async () => {
+      await expect(
+        installOasisCLI('latest', {
+          downloadBaseUrl: 'https://mirror.internal/oasis-cli'
+        })
+      ).rejects.toThrow('Cannot resolve the latest CLI version')
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should resolve auto from rofl.yaml when using a mirror', async () => {
+      mockExistsSync.mockImplementation((p) => p === 'rofl.yaml')
+      mockReadFileSync.mockImplementation((p) =>
+        p === 'rofl.yaml' ? 'tooling:\n  version: 0.18.1\n' : TARBALL
+      )
+
+      await installOasisCLI('auto', {
+        downloadBaseUrl: 'https://mirror.internal/oasis-cli',
+        sha256: TARBALL_SHA256
+      })
+
+      expect(mockDownloadTool).toHaveBeenCalledWith(
+        `https://mirror.internal/oasis-cli/v0.18.1/oasis_cli_0.18.1_${PLATFORM_ARCH}.tar.gz`
+      )
+    })
+
+    it('should install a local archive verified by the checksums file next to it', async () => {
+      const archivePath = `/opt/cli/oasis_cli_0.19.0_${PLATFORM_ARCH}.tar.gz`
+      mockExistsSync.mockImplementation(
+        (p) =>
+          p === archivePath || p === '/opt/cli/oasis_cli_0.19.0_checksums.txt'
+      )
+      mockReadFileSync.mockImplementation((p) =>
+        p === '/opt/cli/oasis_cli_0.19.0_checksums.txt'
+          ? `${TARBALL_SHA256}  oasis_cli_0.19.0_${PLATFORM_ARCH}.tar.gz\n`
+          : TARBALL
+      )
+
+      // "auto" without tooling.version falls back to the archive's version
+      await installOasisCLI('auto', { archivePath })
+
+      expect(mockDownloadTool).not.toHaveBeenCalled()
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(mockExtractTar).toHaveBeenCalledWith(archivePath)
+      expect(mockInfo).toHaveBeenCalledWith(
+        `Checksum verified: sha256:${TARBALL_SHA256}`
+      )
+    })
+
+    it('should require a checksum source for a local archive', async () => {
+      const archivePath = `/opt/cli/oasis_cli_0.19.0_${PLATFORM_ARCH}.tar.gz`
+      mockExistsSync.mockImplementation((p) => p === archivePath)
+
+      await expect(installOasisCLI('0.19.0', { archivePath })).rejects.toThrow(
+        'No checksums file found'
+      )
+      expect(mockExtractTar).not.toHaveBeenCalled()
+    })
+
+    it('should reject a local archive for another version or platform', async () => {
+      await expect(
+        installOasisCLI('0.18.0', {
+          archivePath: `/opt/cli/oasis_cli_0.19.0_${PLATFORM_ARCH}.tar.gz`
+        })
+      ).rejects.toThrow('does not match the expected file name')
+    })
+  })
+
+  describe('GitHub API requests', () => {
+    beforeEach(() => {
+      mockDownloadTool.mockResolvedValue('/tmp/downloaded.tar.gz')
+      mockExtractTar.mockResolvedValue('/tmp/extracted')
+      // Run retry delays immediately
+      jest.spyOn(global, 'setTimeout').mockImplementation(((
+        callback: () => void
+      ) => {
+        callback()
+        return 0
+      }) as unknown as typeof setTimeout)
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    /**
+     * Mock a single API error response ahead of the default responses
+     */
+    function mockApiError(
+      status: number,
+      headers: Record<string, string>
+    ): void {
+      mockFetch.mockImplementationOnce(
+        async () =>
+          ({
+            ok: false,
+            status,
+            statusText: 'Error',
+            headers: new Headers(headers)
+          }) as Response
+      )
+    }
+
+    it('should send the GitHub token when one is provided', async () => {
+      await installOasisCLI('latest', { githubToken: 'ghs_token' })
+
+      const [, init] = mockFetch.mock.calls[0]
+      expect((init?.headers as Record<string, string>).Authorization).toBe(
+        'Bearer ghs_token'
+      )
+    })
+
+    it('should not send an Authorization header without a token', async () => {
+      await installOasisCLI('latest')
+
+      const [, init] = mockFetch.mock.calls[0]
+      expect(
+        (init?.headers as Record<string, string>).Authorization
+      ).toBeUndefined()
+    })
+
+    it('should retry server errors with backoff', async () => {
+      mockApiError(502, {})
+      mockApiError(503, {})
+
+      await installOasisCLI('latest')
+
+      expect(mockWarning).toHaveBeenCalledWith(
+        expect.stringContaining('GitHub API returned 502 on attempt 1/4')
+      )
+      expect(setTimeout).toHaveBeenCalledWith(expect.any(Function), 1000)
+      expect(setTimeout).toHaveBeenCalledWith(expect.any(Function), 2000)
+      expect(mockDownloadTool).toHaveBeenCalledWith(
+        expect.stringContaining('oasis_cli_0.19.0_')
+      )
+    })
+
+    it('should honor Retry-After on 429', async () => {
+      mockApiError(429, { 'retry-after': '7' })
+
+      await installOasisCLI('latest')
+
+      expect(setTimeout).toHaveBeenCalledWith(expect.any(Function), 7000)
+      expect(mockDownloadTool).toHaveBeenCalled()
+    })
+
+    it('should wait for a near rate-limit reset', async () => {
+      const reset = Math.floor(Date.now() / 1000) + 10
+      mockApiError(403, {
+        'x-ratelimit-remaining': '0',
+        'x-ratelimit-reset': String(reset)
+      })
+
+      await installOasisCLI('latest')
+
+      const delay = jest.mocked(setTimeout).mock.calls[0][1] as number
+      expect(delay).toBeGreaterThan(5000)
+      expect(delay).toBeLessThanOrEqual(11000)
+      expect(mockDownloadTool).toHaveBeenCalled()
+    })
+
+    it('should fail clearly when the rate limit is exhausted', async () => {
+      const reset = Math.floor(Date.now() / 1000) + 3600
+      mockApiError(403, {
+        'x-ratelimit-remaining': '0',
+        'x-ratelimit-reset': String(reset)
+      })
+
+      await expect(installOasisCLI('latest')).rejects.toThrow(
+        'GitHub API rate limit exhausted (403 Error). The limit resets at'
+      )
+      await expect(installOasisCLI('latest')).resolves.toBeDefined()
+      expect(mockDownloadTool).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not retry a 403 that is not a rate limit', async () => {
+      mockApiError(403, { 'x-ratelimit-remaining': '42' })
+
+      await expect(installOasisCLI('latest')).rejects.toThrow(
+        'Failed to fetch latest release: 403 Error'
+      )
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(setTimeout).not.toHaveBeenCalled()
+    })
+
+    it('should suggest github_token when anonymous requests are rate limited', async () => {
+      for (let i = 0; i < 4; i++) {
+        mockApiError(429, {})
+      }
+
+      await expect(installOasisCLI('latest')).rejects.toThrow(
+        'Set the github_token input'
+      )
+      expect(mockFetch).toHaveBeenCalledTimes(4)
+    })
+  })
 })
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for the enclave ID verification report
+ */
+import { describe, it, expect } from '@jest/globals'
+import {
+  annotationLine,
+  builtEnclaveIds,
+  diffEnclaveIds,
+  expectedEnclaveIds,
+  formatMismatch,
+  isVerificationFailure,
+  sideBySide
+} from '../src/enclaves.js'
+
+const BUILD_OUTPUT = `Building a ROFL application...
+Computing enclave identity...
+Built enclave identities DIFFER from latest manifest enclave identities!
+Built enclave identities:
+  - NEW1
+  - SAME
+Manifest enclave identities:
+  - OLD1
+  - SAME
+Error: enclave identity verification failed
+`
+
+const MANIFEST_TEXT = `name: my-app
+deployments:
+  default:
+    policy:
+      enclaves:
+        - id: OLD1
+        - id: SAME
+`
+
+describe('enclaves module', () => {
+  it('should detect verification failures in the build output', () => {
+    expect(isVerificationFailure(BUILD_OUTPUT)).toBe(true)
+    expect(isVerificationFailure('Error: failed to pull image')).toBe(false)
+  })
+
+  it('should extract only the built enclave IDs', () => {
+    expect(builtEnclaveIds(BUILD_OUTPUT)).toEqual(['NEW1', 'SAME'])
+    expect(builtEnclaveIds('no ids here')).toEqual([])
+  })
+
+  it('should read the expected IDs from the deployment policy', () => {
+    expect(
+      expectedEnclaveIds(
+        {
+          deployments: {
+            default: { policy: { enclaves: [{ id: 'OLD1' }, 'LEGACY'] } }
+          }
+        },
+        'default'
+      )
+    ).toEqual(['OLD1', 'LEGACY'])
+    expect(expectedEnclaveIds({}, 'default')).toEqual([])
+  })
+
+  it('should pair matching and differing IDs side by side', () => {
+    const diff = diffEnclaveIds(['OLD1', 'SAME'], ['NEW1', 'SAME'])
+
+    expect(diff).toEqual({
+      matching: ['SAME'],
+      missing: ['OLD1'],
+      unexpected: ['NEW1']
+    })
+    expect(sideBySide(diff)).toEqual([
+      ['SAME', 'SAME'],
+      ['OLD1', 'NEW1']
+    ])
+  })
+
+  it('should annotate the line of the first expected ID', () => {
+    expect(annotationLine(MANIFEST_TEXT, ['OLD1'])).toBe(6)
+    expect(annotationLine(MANIFEST_TEXT, ['GONE'])).toBe(5)
+    expect(annotationLine('name: my-app', [])).toBeUndefined()
+  })
+
+  it('should format the diff with a fix hint', () => {
+    const message = formatMismatch(
+      'rofl.yaml',
+      'testnet',
+      diffEnclaveIds(['OLD1'], ['NEW1'])
+    )
+
+    expect(message).toContain('- OLD1 (expected, in rofl.yaml)')
+    expect(message).toContain('+ NEW1 (actual, from the build)')
+    expect(message).toContain('commit the new enclave IDs in rofl.yaml')
+  })
+
+  it('should say when the built IDs could not be extracted', () => {
+    expect(
+      formatMismatch('rofl.yaml', 'default', diffEnclaveIds(['OLD1'], []))
+    ).toContain('could not extract enclave IDs')
+  })
+})
@@ -0,0 +1,439 @@
+/**
+ * Unit tests for update pull requests through the GitHub REST API, against a
+ * local mock server
+ */
+import {
+  jest,
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  afterAll
+} from '@jest/globals'
+import * as fs from 'fs'
+import * as http from 'http'
+import { AddressInfo } from 'net'
+import * as os from 'os'
+import * as path from 'path'
+
+const mockInfo = jest.fn()
+const mockWarning = jest.fn()
+
+jest.unstable_mockModule('@actions/core', () => ({
+  info: mockInfo,
+  warning: mockWarning
+}))
+
+// Import the module after mocking
+const { apiClient, apiClientOptions, repositoryPath } = await import(
+  '../src/github.js'
+)
+
+interface RecordedRequest {
+  method: string
+  url: string
+  authorization?: string
+  body?: Record<string, unknown>
+}
+
+type Route = {
+  status: number
+  body?: unknown
+  headers?: Record<string, string>
+}
+
+// Requests received and responses to send, keyed by "METHOD /path"
+let requests: RecordedRequest[] = []
+let routes: Record<string, Route> = {}
+
+const server = http.createServer((req, res) => {
+  let data = ''
+  req.on('data', (chunk) => (data += chunk))
+  req.on('end', () => {
+    const url = (req.url ?? '').replace('/repos/o/r', '')
+    requests.push({
+      method: req.method ?? '',
+      url,
+      authorization: req.headers.authorization,
+      body: data ? JSON.parse(data) : undefined
+    })
+    const route = routes[`${req.method} ${url}`] ?? {
+      status: 404,
+      body: { message: 'Not Found' }
+    }
+    res.writeHead(route.status, {
+      'Content-Type': 'application/json',
+      ...route.headers
+    })
+    res.end(route.body === undefined ? '' : JSON.stringify(route.body))
+  })
+})
+
+let apiUrl = ''
+let workspace = ''
+let manifestFile = ''
+
+const SETTINGS = {
+  branchPrefix: 'rofl-update-',
+  base: '',
+  title: 'chore: update ROFL artifacts to latest versions',
+  labels: [],
+  reviewers: [],
+  assignees: [],
+  draft: false,
+  author: { name: 'ignored', email: 'ignored@example.com' }
+}
+
+function client() {
+  return apiClient({ token: 't0ken', repository: 'o/r', apiUrl, workspace })
+}
+
+function requestsTo(method: string, prefix: string): RecordedRequest[] {
+  return requests.filter(
+    (request) => request.method === method && request.url.startsWith(prefix)
+  )
+}
+
+describe('github module', () => {
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'rofl-github-'))
+    fs.mkdirSync(path.join(workspace, 'app'))
+    manifestFile = path.join(workspace, 'app', 'rofl.yaml')
+    fs.writeFileSync(manifestFile, 'name: app\nartifacts:\n  kernel: k#2\n')
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+    fs.rmSync(workspace, { recursive: true, force: true })
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    requests = []
+    routes = {
+      'GET ': { status: 200, body: { default_branch: 'main' } },
+      'GET /git/ref/heads/main': {
+        status: 200,
+        body: { object: { sha: 'b1' } }
+      },
+      'GET /git/commits/b1': { status: 200, body: { tree: { sha: 't1' } } },
+      'POST /git/blobs': { status: 201, body: { sha: 'blob1' } },
+      'POST /git/trees': { status: 201, body: { sha: 't2' } },
+      'POST /git/commits': { status: 201, body: { sha: 'c2' } },
+      'POST /git/refs': { status: 201, body: {} },
+      'PATCH /git/refs/heads/rofl-update-2025-01-31': { status: 200, body: {} },
+      'POST /pulls': {
+        status: 201,
+        body: { number: 5, html_url: 'https://github.com/o/r/pull/5' }
+      },
+      'POST /issues/5/labels': { status: 200, body: [] },
+      'POST /pulls/5/requested_reviewers': { status: 201, body: {} },
+      'POST /issues/5/assignees': { status: 201, body: {} },
+      'PATCH /pulls/5': { status: 200, body: {} },
+      'POST /issues/5/comments': { status: 201, body: {} }
+    }
+  })
+
+  describe('apiClientOptions', () => {
+    it('should read the repository, API URL and workspace', () => {
+      expect(
+        apiClientOptions('t', {
+          GITHUB_REPOSITORY: 'o/r',
+          GITHUB_API_URL: 'https://ghe.example/api/v3',
+          GITHUB_WORKSPACE: '/w'
+        })
+      ).toEqual({
+        token: 't',
+        repository: 'o/r',
+        apiUrl: 'https://ghe.example/api/v3',
+        workspace: '/w'
+      })
+    })
+  })
+
+  describe('repositoryPath', () => {
+    it('should make paths relative to the workspace', () => {
+      expect(repositoryPath('/w/app/rofl.yaml', '/w')).toBe('app/rofl.yaml')
+    })
+  })
+
+  describe('apiClient', () => {
+    it('should require the repository', () => {
+      expect(() => apiClient({ token: 't' })).toThrow(
+        'GITHUB_REPOSITORY is not set'
+      )
+    })
+
+    it('should find open PRs by the branch prefix', async () => {
+      routes['GET /pulls?state=open&per_page=100'] = {
+        status: 200,
+        body: [
+          { number: 1, html_url: 'u1', head: { ref: 'feature' } },
+          { number: 2, html_url: 'u2', head: { ref: 'rofl-update-2025-01-01' } }
+        ]
+      }
+
+      await expect(client().find(SETTINGS)).resolves.toEqual({
+        url: 'u2',
+        branch: 'rofl-update-2025-01-01',
+        number: 2
+      })
+      expect(requests[0].authorization).toBe('Bearer t0ken')
+    })
+
+    it('should skip the PRs of apps sharing the prefix', async () => {
+      routes['GET /pulls?state=open&per_page=100'] = {
+        status: 200,
+        body: [
+          {
+            number: 1,
+            html_url: 'u1',
+            head: { ref: 'rofl-update-apps-foo-bar-2025-01-01' }
+          },
+          {
+            number: 2,
+            html_url: 'u2',
+            head: { ref: 'rofl-update-apps-foo-2025-01-01' }
+          }
+        ]
+      }
+
+      await expect(
+        client().find({ ...SETTINGS, branchPrefix: 'rofl-update-apps-foo-' })
+      ).resolves.toEqual(expect.objectContaining({ number: 2 }))
+      await expect(client().find(SETTINGS)).resolves.toBeUndefined()
+    })
+
+    it('should follow the Link header to later pages of open PRs', async () => {
+      routes['GET /pulls?state=open&per_page=100'] = {
+        status: 200,
+        body: [{ number: 1, html_url: 'u1', head: { ref: 'feature' } }],
+        headers: {
+          Link: `<${apiUrl}repos/o/r/pulls?state=open&per_page=100&page=2>; rel="next", <${apiUrl}repos/o/r/pulls?state=open&per_page=100&page=3>; rel="last"`
+        }
+      }
+      routes['GET /pulls?state=open&per_page=100&page=2'] = {
+        status: 200,
+        body: [
+          { number: 2, html_url: 'u2', head: { ref: 'rofl-update-2025-01-01' } }
+        ],
+        headers: {
+          Link: `<${apiUrl}repos/o/r/pulls?state=open&per_page=100&page=3>; rel="next"`
+        }
+      }
+
+      await expect(client().find(SETTINGS)).resolves.toEqual({
+        url: 'u2',
+        branch: 'rofl-update-2025-01-01',
+        number: 2
+      })
+      // Stops at the page with a match
+      expect(requestsTo('GET', '/pulls')).toHaveLength(2)
+    })
+
+    it('should create a commit without an author and a new branch', async () => {
+      await client().push(SETTINGS, 'rofl-update-2025-01-31', [manifestFile])
+
+      expect(requestsTo('POST', '/git/blobs')[0].body).toEqual({
+        content: Buffer.from(fs.readFileSync(manifestFile)).toString('base64'),
+        encoding: 'base64'
+      })
+      expect(requestsTo('POST', '/git/trees')[0].body).toEqual({
+        base_tree: 't1',
+        tree: [
+          { path: 'app/rofl.yaml', mode: '100644', type: 'blob', sha: 'blob1' }
+        ]
+      })
+      const commit = requestsTo('POST', '/git/commits')[0].body
+      expect(commit).toEqual({
+        message: expect.stringMatching(/^chore: update ROFL artifacts/),
+        tree: 't2',
+        parents: ['b1']
+      })
+      expect(requestsTo('POST', '/git/refs')[0].body).toEqual({
+        ref: 'refs/heads/rofl-update-2025-01-31',
+        sha: 'c2'
+      })
+    })
+
+    it('should force update an existing branch', async () => {
+      routes['GET /git/ref/heads/rofl-update-2025-01-31'] = {
+        status: 200,
+        body: { object: { sha: 'old' } }
+      }
+
+      await client().push(SETTINGS, 'rofl-update-2025-01-31', [manifestFile])
+
+      expect(requestsTo('POST', '/git/refs')).toHaveLength(0)
+      expect(
+        requestsTo('PATCH', '/git/refs/heads/rofl-update-2025-01-31')[0].body
+      ).toEqual({ sha: 'c2', force: true })
+    })
+
+    it('should open the PR with labels, reviewers and assignees', async () => {
+      const url = await client().create(
+        {
+          ...SETTINGS,
+          base: 'develop',
+          labels: ['deps'],
+          reviewers: ['acme/platform', 'alice'],
+          assignees: ['bob'],
+          draft: true
+        },
+        'rofl-update-2025-01-31',
+        'body'
+      )
+
+      expect(url).toBe('https://github.com/o/r/pull/5')
+      expect(requestsTo('POST', '/pulls')[0].body).toEqual({
+        title: 'chore: update ROFL artifacts to latest versions',
+        head: 'rofl-update-2025-01-31',
+        base: 'develop',
+        body: 'body',
+        draft: true
+      })
+      expect(requestsTo('POST', '/issues/5/labels')[0].body).toEqual({
+        labels: ['deps']
+      })
+      expect(
+        requestsTo('POST', '/pulls/5/requested_reviewers')[0].body
+      ).toEqual({ reviewers: ['alice'], team_reviewers: ['platform'] })
+      expect(requestsTo('POST', '/issues/5/assignees')[0].body).toEqual({
+        assignees: ['bob']
+      })
+    })
+
+    it('should open the PR against the default branch', async () => {
+      await client().create(SETTINGS, 'rofl-update-2025-01-31', 'body')
+
+      expect(requestsTo('POST', '/pulls')[0].body?.base).toBe('main')
+      expect(requestsTo('POST', '/issues/5/labels')).toHaveLength(0)
+    })
+
+    it('should compare the manifest with the branch', async () => {
+      routes['GET /contents/app/rofl.yaml?ref=rofl-update-2025-01-01'] = {
+        status: 200,
+        body: {
+          content: Buffer.from('artifacts:\n  kernel: k#1\n').toString('base64')
+        }
+      }
+
+      await expect(
+        client().compare('rofl-update-2025-01-01', [manifestFile])
+      ).resolves.toEqual({
+        changed: true,
+        manifest: { artifacts: { kernel: 'k#1' } }
+      })
+    })
+
+    it('should report an up-to-date branch', async () => {
+      routes['GET /contents/app/rofl.yaml?ref=rofl-update-2025-01-01'] = {
+        status: 200,
+        body: {
+          content: fs.readFileSync(manifestFile).toString('base64')
+        }
+      }
+
+      const state = await client().compare('rofl-update-2025-01-01', [
+        manifestFile
+      ])
+
+      expect(state?.changed).toBe(false)
+    })
+
+    it('should update the body and comment on refresh', async () => {
+      await client().refresh(
+        { url: 'https://github.com/o/r/pull/5', branch: 'rofl-update-x' },
+        'new body',
+        'refreshed'
+      )
+
+      expect(requestsTo('PATCH', '/pulls/5')[0].body).toEqual({
+        body: 'new body'
+      })
+      expect(requestsTo('POST', '/issues/5/comments')[0].body).toEqual({
+        body: 'refreshed'
+      })
+    })
+
+    it('should open an issue for a failed update', async () => {
+      routes['GET /issues?state=open&per_page=100'] = {
+        status: 200,
+        body: [
+          {
+            number: 3,
+            title: 'Build failed',
+            html_url: 'u3',
+            pull_request: {}
+          }
+        ]
+      }
+      routes['POST /issues'] = { status: 201, body: { html_url: 'u9' } }
+
+      const url = await client().report(
+        { ...SETTINGS, labels: ['deps'] },
+        'Build failed',
+        'log'
+      )
+
+      expect(url).toBe('u9')
+      expect(requestsTo('POST', '/issues')[0].body).toEqual({
+        title: 'Build failed',
+        body: 'log',
+        labels: ['deps'],
+        assignees: []
+      })
+    })
+
+    it('should comment on an open issue with the same title', async () => {
+      routes['GET /issues?state=open&per_page=100'] = {
+        status: 200,
+        body: [{ number: 4, title: 'Build failed', html_url: 'u4' }]
+      }
+      routes['POST /issues/4/comments'] = { status: 201, body: {} }
+
+      await expect(
+        client().report(SETTINGS, 'Build failed', 'log')
+      ).resolves.toBe('u4')
+      expect(requestsTo('POST', '/issues/4/comments')[0].body).toEqual({
+        body: 'log'
+      })
+    })
+
+    it('should look for an open issue on later pages', async () => {
+      routes['GET /issues?state=open&per_page=100'] = {
+        status: 200,
+        body: [{ number: 3, title: 'Other', html_url: 'u3' }],
+        headers: {
+          Link: `<${apiUrl}repos/o/r/issues?state=open&per_page=100&page=2>; rel="next"`
+        }
+      }
+      routes['GET /issues?state=open&per_page=100&page=2'] = {
+        status: 200,
+        body: [{ number: 4, title: 'Build failed', html_url: 'u4' }]
+      }
+      routes['POST /issues/4/comments'] = { status: 201, body: {} }
+
+      await expect(
+        client().report(SETTINGS, 'Build failed', 'log')
+      ).resolves.toBe('u4')
+      expect(requests.map((request) => request.url)).not.toContain('/issues')
+    })
+
+    it('should report API errors with the status and message', async () => {
+      routes['POST /git/blobs'] = {
+        status: 403,
+        body: { message: 'Resource not accessible by integration' }
+      }
+
+      await expect(
+        client().push(SETTINGS, 'rofl-update-2025-01-31', [manifestFile])
+      ).rejects.toThrow(
+        'GitHub API POST /git/blobs failed with 403 Forbidden: Resource not accessible by integration'
+      )
+    })
+  })
+})
@@ -0,0 +1,318 @@
+/**
+ * Unit tests for action input parsing and validation
+ */
+import { jest, describe, it, expect, beforeEach } from '@jest/globals'
+
+const mockGetInput = jest.fn<(name: string) => string>()
+
+jest.unstable_mockModule('@actions/core', () => ({
+  getInput: mockGetInput
+}))
+
+// Import the module after mocking
+const { getInputs, redactInputs } = await import('../src/inputs.js')
+
+/**
+ * Mock core.getInput with the given values, empty for everything else
+ */
+function mockInputs(values: Record<string, string>): void {
+  mockGetInput.mockImplementation((name: string) => values[name] || '')
+}
+
+describe('inputs module', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockInputs({})
+  })
+
+  describe('getInputs', () => {
+    it('should parse valid inputs into typed values', () => {
+      mockInputs({
+        network: 'testnet',
+        force: 'true',
+        verbose: 'TRUE',
+        offline: 'False',
+        format: 'cbor',
+        term: 'month',
+        term_count: '3',
+        nonce: '0',
+        gas_price: '100.5',
+        wallet_algorithm: 'secp256k1-raw',
+        deployments: 'testnet,\nmainnet\n'
+      })
+
+      const inputs = getInputs()
+
+      expect(inputs.network).toBe('testnet')
+      expect(inputs.force).toBe(true)
+      expect(inputs.verbose).toBe(true)
+      expect(inputs.offline).toBe(false)
+      expect(inputs.skipBuild).toBe(false)
+      expect(inputs.format).toBe('cbor')
+      expect(inputs.term).toBe('month')
+      expect(inputs.termCount).toBe('3')
+      expect(inputs.nonce).toBe('0')
+      expect(inputs.walletAlgorithm).toBe('secp256k1-raw')
+      expect(inputs.deployments).toEqual(['testnet', 'mainnet'])
+    })
+
+    it('should reject invalid booleans instead of treating them as false', () => {
+      mockInputs({ force: 'yes' })
+
+      expect(() => getInputs()).toThrow(
+        'force: expected true or false, got "yes"'
+      )
+    })
+
+    it('should reject invalid enums', () => {
+      mockInputs({ term: 'months', format: 'yaml', wallet_algorithm: 'rsa' })
+
+      expect(() => getInputs()).toThrow(
+        'term: expected one of [hour, month, year], got "months"'
+      )
+      expect(() => getInputs()).toThrow(
+        'format: expected one of [json, cbor], got "yaml"'
+      )
+      expect(() => getInputs()).toThrow('wallet_algorithm: expected one of')
+    })
+
+    it('should reject non-numeric numbers', () => {
+      mockInputs({ nonce: 'abc', term_count: '0', gas_limit: '1e6' })
+
+      expect(() => getInputs()).toThrow(
+        'nonce: expected an integer >= 0, got "abc"'
+      )
+      expect(() => getInputs()).toThrow(
+        'term_count: expected an integer >= 1, got "0"'
+      )
+      expect(() => getInputs()).toThrow('gas_limit: expected an integer')
+    })
+
+    it('should reject a malformed cli_sha256 before downloading', () => {
+      mockInputs({ cli_sha256: 'abc123', gas_limit: 'many' })
+
+      expect(() => getInputs()).toThrow(
+        'cli_sha256: expected 64 hex characters, got "abc123"'
+      )
+      expect(() => getInputs()).toThrow('gas_limit: expected an integer')
+    })
+
+    it('should accept a pinned cli_sha256', () => {
+      mockInputs({ cli_sha256: 'AB'.repeat(32) })
+
+      expect(getInputs().cliSha256).toBe('AB'.repeat(32))
+    })
+
+    it('should reject an invalid Safe address', () => {
+      mockInputs({ safe_address: '0x123', safe_proposer_key: '0xkey' })
+
+      expect(() => getInputs()).toThrow(
+        'safe_address: expected a 0x-prefixed address'
+      )
+    })
+
+    it('should reject contradictory combinations', () => {
+      mockInputs({
+        encrypted: 'true',
+        offline: 'true',
+        update_manifest: 'true',
+        verify: 'true',
+        create_update_pr: 'true'
+      })
+
+      expect(() => getInputs()).toThrow(
+        'encrypted: requires online mode and cannot be combined with offline'
+      )
+      expect(() => getInputs()).toThrow(
+        'update_manifest: skips verification and cannot be combined with verify'
+      )
+      expect(() => getInputs()).toThrow(
+        'create_update_pr: requires check_updates: true'
+      )
+    })
+
+    it('should require a build for attest_bundle', () => {
+      mockInputs({ attest_bundle: 'true', skip_build: 'true' })
+
+      expect(() => getInputs()).toThrow(
+        'attest_bundle: requires a bundle and cannot be combined with skip_build or only_validate'
+      )
+    })
+
+    it('should parse the update PR settings', () => {
+      mockInputs({
+        update_branch_prefix: 'deps/rofl-',
+        update_pr_labels: 'deps, rofl',
+        update_pr_reviewers: 'acme/platform\nalice',
+        update_pr_draft: 'true',
+        update_commit_author: 'ROFL Bot <bot@example.com>'
+      })
+
+      const inputs = getInputs()
+
+      expect(inputs.updateBranchPrefix).toBe('deps/rofl-')
+      expect(inputs.updatePrTitle).toBe(
+        'chore: update ROFL artifacts to latest versions'
+      )
+      expect(inputs.updatePrLabels).toEqual(['deps', 'rofl'])
+      expect(inputs.updatePrReviewers).toEqual(['acme/platform', 'alice'])
+      expect(inputs.updatePrDraft).toBe(true)
+      expect(inputs.updateCommitAuthor).toBe('ROFL Bot <bot@example.com>')
+    })
+
+    it('should default the update branch prefix and commit author', () => {
+      const inputs = getInputs()
+
+      expect(inputs.updateBranchPrefix).toBe('rofl-update-')
+      expect(inputs.updateCommitAuthor).toBe(
+        'github-actions[bot] <github-actions[bot]@users.noreply.github.com>'
+      )
+    })
+
+    it('should reject invalid update branches and commit authors', () => {
+      mockInputs({
+        update_branch_prefix: 'rofl update',
+        update_pr_base: '../main',
+        update_commit_author: 'bot@example.com'
+      })
+
+      expect(() => getInputs()).toThrow(
+        'update_branch_prefix: expected a git branch name, got "rofl update"'
+      )
+      expect(() => getInputs()).toThrow(
+        'update_pr_base: expected a git branch name, got "../main"'
+      )
+      expect(() => getInputs()).toThrow(
+        'update_commit_author: expected "Name <email>", got "bot@example.com"'
+      )
+    })
+
+    it('should require check_updates and a build for validate_update', () => {
+      mockInputs({ validate_update: 'true', skip_build: 'true' })
+
+      expect(() => getInputs()).toThrow(
+        'validate_update: requires check_updates: true'
+      )
+      expect(() => getInputs()).toThrow(
+        'validate_update: builds the upgraded manifest and cannot be combined with skip_build or only_validate'
+      )
+    })
+
+    it('should check the manifest glob and update PR mode', () => {
+      mockInputs({
+        manifest_glob: '../apps/*/rofl.yaml',
+        update_pr_mode: 'one'
+      })
+
+      expect(() => getInputs()).toThrow(
+        'manifest_glob: requires check_updates: true'
+      )
+      expect(() => getInputs()).toThrow(
+        'manifest_glob: expected a path below the working directory, got "../apps/*/rofl.yaml"'
+      )
+      expect(() => getInputs()).toThrow('update_pr_mode: expected one of')
+    })
+
+    it('should require safe_address for the Safe network registry', () => {
+      mockInputs({
+        safe_networks_file: 'networks.yaml',
+        safe_cli_networks: 'true'
+      })
+
+      expect(() => getInputs()).toThrow(
+        'safe_networks_file: requires safe_address'
+      )
+      expect(() => getInputs()).toThrow(
+        'safe_cli_networks: requires safe_address'
+      )
+    })
+
+    it('should require a token for the API update PR method', () => {
+      const token = process.env.GITHUB_TOKEN
+      delete process.env.GITHUB_TOKEN
+      mockInputs({ update_pr_method: 'api' })
+
+      try {
+        expect(() => getInputs()).toThrow(
+          'update_pr_method: api requires github_token'
+        )
+      } finally {
+        if (token !== undefined) {
+          process.env.GITHUB_TOKEN = token
+        }
+      }
+    })
+
+    it('should report all violations together', () => {
+      mockInputs({
+        term: 'months',
+        nonce: 'x',
+        verbose: 'yes',
+        wallet_import: 'true'
+      })
+
+      let message = ''
+      try {
+        getInputs()
+      } catch (error) {
+        message = (error as Error).message
+      }
+
+      expect(message.split('\n')).toEqual([
+        'Invalid action inputs:',
+        '  - nonce: expected an integer >= 0, got "x"',
+        '  - term: expected one of [hour, month, year], got "months"',
+        '  - verbose: expected true or false, got "yes"',
+        '  - wallet_import: requires wallet_secret'
+      ])
+    })
+
+    it('should require Safe output files and proposer key', () => {
+      mockInputs({
+        safe_address: '0x1234567890123456789012345678901234567890'
+      })
+
+      expect(() => getInputs()).toThrow(
+        'safe_proposer_key: required when safe_address is set'
+      )
+      expect(() => getInputs()).toThrow(
+        'Safe mode requires update_output_file (or output_file)'
+      )
+      expect(() => getInputs()).toThrow(
+        'Safe mode requires deploy_output_file (or output_file)'
+      )
+    })
+    it('should not require a proposer key with safe_export', () => {
+      mockInputs({
+        safe_address: '0x1234567890123456789012345678901234567890',
+        safe_export: 'true',
+        output_file: 'tx.cbor'
+      })
+
+      expect(getInputs().safeExport).toBe(true)
+    })
+
+    it('should reject safe_export without safe_address', () => {
+      mockInputs({ safe_export: 'true' })
+
+      expect(() => getInputs()).toThrow('safe_export: requires safe_address')
+    })
+  })
+
+  describe('redactInputs', () => {
+    it('should mask secrets that are set', () => {
+      mockInputs({
+        wallet_secret: 'word word word',
+        wallet_import: 'true',
+        github_token: 'ghp_token'
+      })
+
+      const redacted = redactInputs(getInputs())
+
+      expect(redacted.walletSecret).toBe('***')
+      expect(redacted.githubToken).toBe('***')
+      expect(redacted.safeProposerKey).toBe('')
+      expect(JSON.stringify(redacted)).not.toContain('word word word')
+    })
+  })
+})
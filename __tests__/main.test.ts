@@ -2,6 +2,8 @@
  * Unit tests for the main action orchestration
  */
 import { jest, describe, it, expect, beforeEach } from '@jest/globals'
+import { createHash } from 'crypto'
+import * as path from 'path'
 
 // Mock functions
 const mockGetInput = jest.fn()
@@ -10,12 +12,25 @@ const mockSetFailed = jest.fn()
 const mockInfo = jest.fn()
 const mockDebug = jest.fn()
 const mockWarning = jest.fn()
+const mockError = jest.fn()
 const mockExec = jest.fn()
 const mockInstallOasisCLI = jest.fn()
 const mockRunSafeProposal = jest.fn()
+const mockLoadManifest = jest.fn()
+const mockValidateManifest = jest.fn()
+const mockDeploymentValue = jest.fn()
+const mockFindManifests = jest.fn()
+const mockSummary = {
+  addHeading: jest.fn(() => mockSummary),
+  addRaw: jest.fn(() => mockSummary),
+  addTable: jest.fn(() => mockSummary),
+  write: jest.fn(async () => mockSummary)
+}
 
 // Track fs.existsSync calls
 const mockExistsSync = jest.fn()
+const mockReadFileSync = jest.fn()
+const mockWriteFileSync = jest.fn()
 
 // Track process.chdir calls
 const originalChdir = process.chdir
@@ -27,7 +42,9 @@ jest.unstable_mockModule('@actions/core', () => ({
   setFailed: mockSetFailed,
   info: mockInfo,
   debug: mockDebug,
-  warning: mockWarning
+  warning: mockWarning,
+  error: mockError,
+  summary: mockSummary
 }))
 
 jest.unstable_mockModule('@actions/exec', () => ({
@@ -39,12 +56,25 @@ jest.unstable_mockModule('../src/cli.js', () => ({
 }))
 
 jest.unstable_mockModule('../src/safe.js', () => ({
-  runSafeProposal: mockRunSafeProposal
+  runSafeProposal: mockRunSafeProposal,
+  safeTransactionUrl: (network: string, address: string, hash: string) =>
+    `https://safe.example/${network}/${address}/${hash}`
+}))
+
+jest.unstable_mockModule('../src/manifest.js', () => ({
+  DEFAULT_DEPLOYMENT: 'default',
+  deploymentValue: mockDeploymentValue,
+  findManifests: mockFindManifests,
+  loadManifest: mockLoadManifest,
+  MANIFEST_FILES: ['rofl.yaml', 'rofl.yml'],
+  parseManifest: jest.fn(),
+  validateManifest: mockValidateManifest
 }))
 
 jest.unstable_mockModule('fs', () => ({
   existsSync: mockExistsSync,
-  readFileSync: jest.fn()
+  readFileSync: mockReadFileSync,
+  writeFileSync: mockWriteFileSync
 }))
 
 // Import the module after mocking
@@ -59,9 +89,22 @@ describe('main module', () => {
     // Default: exec succeeds
     mockExec.mockResolvedValue(0)
     // Default: CLI install succeeds
-    mockInstallOasisCLI.mockResolvedValue(undefined)
+    mockInstallOasisCLI.mockResolvedValue({
+      path: '/opt/hostedtoolcache/oasis/0.18.1/x64',
+      version: '0.18.1',
+      source: 'auto',
+      requested: '0.18.1',
+      tarball:
+        'https://github.com/oasisprotocol/cli/releases/download/v0.18.1/oasis_cli_0.18.1_linux_amd64.tar.gz',
+      sha256: 'c11'
+    })
     // Default: files exist
     mockExistsSync.mockReturnValue(true)
+    mockReadFileSync.mockReturnValue('file contents')
+    // Default: manifest is valid
+    mockLoadManifest.mockReturnValue({ file: 'rofl.yaml', manifest: {} })
+    mockValidateManifest.mockReturnValue([])
+    mockDeploymentValue.mockReturnValue(undefined)
   })
 
   afterAll(() => {
@@ -109,6 +152,672 @@ describe('main module', () => {
     })
   })
 
+  describe('input validation', () => {
+    it('should fail before installing the CLI when inputs are invalid', async () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'network') return 'testnet'
+        if (name === 'term') return 'months'
+        if (name === 'nonce') return 'next'
+        return ''
+      })
+
+      await run()
+
+      expect(mockSetFailed).toHaveBeenCalledWith(
+        expect.stringMatching(/nonce: .*\n.*term: /)
+      )
+      expect(mockInstallOasisCLI).not.toHaveBeenCalled()
+      expect(mockExec).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('manifest validation', () => {
+    it('should fail before installing the CLI when the manifest is invalid', async () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'network') return 'testnet'
+        if (name === 'deployment') return 'tesnet'
+        return ''
+      })
+      mockValidateManifest.mockReturnValue([
+        'deployments.tesnet: not found (available: testnet)'
+      ])
+
+      await run()
+
+      expect(mockValidateManifest).toHaveBeenCalledWith(
+        {},
+        { deployments: ['tesnet'], network: 'testnet', requireAppId: true }
+      )
+      expect(mockSetFailed).toHaveBeenCalledWith(
+        'Invalid rofl.yaml:\n  - deployments.tesnet: not found (available: testnet)'
+      )
+      expect(mockInstallOasisCLI).not.toHaveBeenCalled()
+      expect(mockExec).not.toHaveBeenCalled()
+    })
+
+    it('should not require an app_id when only building', async () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'network') return 'testnet'
+        if (name === 'skip_update') return 'true'
+        if (name === 'skip_deploy') return 'true'
+        return ''
+      })
+
+      await run()
+
+      expect(mockValidateManifest).toHaveBeenCalledWith(
+        {},
+        expect.objectContaining({
+          deployments: ['default'],
+          requireAppId: false
+        })
+      )
+      expect(mockSetFailed).not.toHaveBeenCalled()
+    })
+
+    it('should check deployments against their own networks without a network input', async () => {
+      mockGetInput.mockImplementation((name: string) =>
+        name === 'deployments' ? 'testnet\nmainnet' : ''
+      )
+      mockDeploymentValue.mockImplementation((...args: unknown[]) =>
+        args[2] === 'network' ? (args[1] as string[])[0] : undefined
+      )
+
+      await run()
+
+      expect(mockValidateManifest).toHaveBeenCalledWith(
+        {},
+        expect.objectContaining({
+          deployments: ['testnet', 'mainnet'],
+          network: ''
+        })
+      )
+      expect(mockSetFailed).not.toHaveBeenCalled()
+    })
+
+    it('should warn and continue when there is no manifest', async () => {
+      mockLoadManifest.mockReturnValue(null)
+      mockGetInput.mockImplementation((name: string) =>
+        name === 'network' ? 'testnet' : ''
+      )
+
+      await run()
+
+      expect(mockWarning).toHaveBeenCalledWith(
+        expect.stringContaining('skipping manifest validation')
+      )
+      expect(mockValidateManifest).not.toHaveBeenCalled()
+      expect(mockInstallOasisCLI).toHaveBeenCalled()
+    })
+
+    it('should not validate the manifest when checking for updates', async () => {
+      mockGetInput.mockImplementation((name: string) =>
+        name === 'check_updates' ? 'true' : ''
+      )
+
+      await run()
+
+      expect(mockValidateManifest).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('network and account defaults', () => {
+    it('should use the network and admin of the selected deployment', async () => {
+      mockGetInput.mockImplementation((name: string) =>
+        name === 'deployment' ? 'testnet' : ''
+      )
+      mockDeploymentValue.mockImplementation((...args: unknown[]) =>
+        args[2] === 'network' ? 'testnet' : 'deployer'
+      )
+
+      await run()
+
+      expect(mockDeploymentValue).toHaveBeenCalledWith(
+        {},
+        ['testnet'],
+        'network'
+      )
+      expect(mockExec).toHaveBeenCalledWith('oasis', [
+        'network',
+        'set-default',
+        'testnet'
+      ])
+      expect(mockExec).toHaveBeenCalledWith(
+        'oasis',
+        expect.arrayContaining(['update', '--account', 'deployer'])
+      )
+      expect(mockInfo).toHaveBeenCalledWith(
+        'Using network testnet from rofl.yaml deployment testnet'
+      )
+      expect(mockInfo).toHaveBeenCalledWith(
+        'Using wallet account deployer (admin) from rofl.yaml deployment testnet'
+      )
+    })
+
+    it('should prefer explicit inputs over the deployment', async () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'network') return 'mainnet'
+        if (name === 'wallet_account') return 'ci'
+        return ''
+      })
+      mockDeploymentValue.mockReturnValue('testnet')
+
+      await run()
+
+      expect(mockDeploymentValue).not.toHaveBeenCalled()
+      expect(mockInfo).toHaveBeenCalledWith(
+        'Using network mainnet from the network input'
+      )
+      expect(mockInfo).toHaveBeenCalledWith(
+        'Using wallet account ci from the wallet_account input'
+      )
+    })
+
+    it('should fall back to the defaults when admin is an address', async () => {
+      mockDeploymentValue.mockImplementation((...args: unknown[]) =>
+        args[2] === 'admin'
+          ? 'oasis1qpupfu7e2n6pkezeaw0yhj8mcem8anj64ytrayne'
+          : undefined
+      )
+
+      await run()
+
+      expect(mockExec).toHaveBeenCalledWith('oasis', [
+        'network',
+        'set-default',
+        'mainnet'
+      ])
+      expect(mockInfo).toHaveBeenCalledWith(
+        'Using default network mainnet for deployment default'
+      )
+      expect(mockInfo).toHaveBeenCalledWith(
+        'Using default wallet account test:alice for deployment default'
+      )
+    })
+
+    it('should pass the derived network to the Safe proposal', async () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'safe_address')
+          return '0x1234567890123456789012345678901234567890'
+        if (name === 'safe_proposer_key') return '0xkey'
+        if (name === 'output_file') return 'tx.cbor'
+        return ''
+      })
+      mockDeploymentValue.mockImplementation((...args: unknown[]) =>
+        args[2] === 'network' ? 'testnet' : undefined
+      )
+
+      await run()
+
+      expect(mockRunSafeProposal).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        'testnet',
+        expect.anything()
+      )
+    })
+    it('should use the network and admin of each deployment', async () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'deployments') return 'testnet\nmainnet'
+        if (name === 'safe_address')
+          return '0x1234567890123456789012345678901234567890'
+        if (name === 'safe_proposer_key') return '0xkey'
+        if (name === 'output_file') return 'tx.cbor'
+        return ''
+      })
+      mockDeploymentValue.mockImplementation((...args: unknown[]) => {
+        const [name] = args[1] as string[]
+        return args[2] === 'network'
+          ? name
+          : name === 'testnet'
+            ? 'tester'
+            : 'deployer'
+      })
+
+      await run()
+
+      expect(mockSetFailed).not.toHaveBeenCalled()
+      const networkCalls = mockExec.mock.calls.filter(
+        (call) => (call[1] as string[])[0] === 'network'
+      )
+      expect(networkCalls.map((call) => call[1])).toEqual([
+        ['network', 'set-default', 'testnet'],
+        ['network', 'set-default', 'mainnet']
+      ])
+      expect(mockRunSafeProposal.mock.calls.map((call) => call[2])).toEqual([
+        'testnet',
+        'mainnet'
+      ])
+      expect(mockExec).toHaveBeenCalledWith(
+        'oasis',
+        expect.arrayContaining(['update', '--account', 'tester'])
+      )
+      expect(mockExec).toHaveBeenCalledWith(
+        'oasis',
+        expect.arrayContaining(['update', '--account', 'deployer'])
+      )
+    })
+
+    it('should require wallet_account to import a wallet for different admins', async () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'deployments') return 'testnet\nmainnet'
+        if (name === 'wallet_import') return 'true'
+        if (name === 'wallet_secret') return 'secret'
+        return ''
+      })
+      mockDeploymentValue.mockImplementation((...args: unknown[]) => {
+        const [name] = args[1] as string[]
+        return args[2] === 'network' ? name : `${name}-admin`
+      })
+
+      await run()
+
+      expect(mockSetFailed).toHaveBeenCalledWith(
+        'wallet_account: deployments testnet, mainnet have different admin accounts (testnet-admin, mainnet-admin). Set wallet_account to the account wallet_secret is imported as.'
+      )
+      expect(mockExec).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('enclave ID verification', () => {
+    it('should report expected and actual IDs when verification fails', async () => {
+      mockGetInput.mockImplementation((name: string) =>
+        name === 'network' ? 'testnet' : ''
+      )
+      mockLoadManifest.mockReturnValue({
+        file: 'rofl.yaml',
+        manifest: {
+          deployments: {
+            default: { policy: { enclaves: [{ id: 'OLD1' }] } }
+          }
+        }
+      })
+      mockExec.mockImplementation(async (...args: unknown[]) => {
+        const [, execArgs, options] = args as [
+          string,
+          string[],
+          { listeners?: { stdout?: (data: Buffer) => void } }
+        ]
+        if (execArgs[1] !== 'build') return 0
+        options.listeners?.stdout?.(
+          Buffer.from(
+            'Built enclave identities DIFFER from latest manifest enclave identities!\n' +
+              'Built enclave identities:\n  - NEW1\n'
+          )
+        )
+        return 1
+      })
+
+      await run()
+
+      expect(mockError).toHaveBeenCalledWith(
+        expect.stringContaining('- OLD1 (expected, in rofl.yaml)'),
+        expect.objectContaining({
+          title: 'Enclave ID mismatch',
+          file: 'rofl.yaml'
+        })
+      )
+      expect(mockSummary.addTable).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          ['<code>OLD1</code>', '<code>NEW1</code>', 'Changed']
+        ])
+      )
+      expect(mockSetFailed).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'Enclave ID verification failed for deployment default'
+        )
+      )
+      expect(mockExec).not.toHaveBeenCalledWith(
+        'oasis',
+        expect.arrayContaining(['update'])
+      )
+    })
+
+    it('should annotate the manifest relative to the repository root', async () => {
+      // chdir is mocked, so the app directory is the test's own directory
+      const env = { ...process.env }
+      const app = path.basename(process.cwd())
+      process.env.GITHUB_WORKSPACE = path.dirname(process.cwd())
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'network') return 'testnet'
+        if (name === 'working_directory') return app
+        return ''
+      })
+      mockLoadManifest.mockReturnValue({
+        file: 'rofl.yaml',
+        manifest: {
+          deployments: {
+            default: { policy: { enclaves: [{ id: 'OLD1' }] } }
+          }
+        }
+      })
+      mockExec.mockImplementation(async (...args: unknown[]) => {
+        const [, execArgs, options] = args as [
+          string,
+          string[],
+          { listeners?: { stdout?: (data: Buffer) => void } }
+        ]
+        if (execArgs[1] !== 'build') return 0
+        options.listeners?.stdout?.(
+          Buffer.from(
+            'Built enclave identities DIFFER from latest manifest enclave identities!\n' +
+              'Built enclave identities:\n  - NEW1\n'
+          )
+        )
+        return 1
+      })
+
+      try {
+        await run()
+      } finally {
+        process.env = env
+      }
+
+      expect(mockChdir).toHaveBeenCalledWith(process.cwd())
+      expect(mockError).toHaveBeenCalledWith(
+        expect.stringContaining('- OLD1 (expected, in rofl.yaml)'),
+        expect.objectContaining({ file: `${app}/rofl.yaml` })
+      )
+    })
+
+    it('should fail with the exit code for other build errors', async () => {
+      mockExec.mockImplementation(async (...args: unknown[]) =>
+        (args[1] as string[])[1] === 'build' ? 2 : 0
+      )
+
+      await run()
+
+      expect(mockError).not.toHaveBeenCalled()
+      expect(mockSetFailed).toHaveBeenCalledWith(
+        'oasis rofl build failed with exit code 2'
+      )
+    })
+  })
+
+  describe('build and deploy outputs', () => {
+    it('should set enclave IDs, app ID, machine and the discovered bundle', async () => {
+      mockGetInput.mockImplementation((name: string) =>
+        name === 'network' ? 'testnet' : ''
+      )
+      mockLoadManifest.mockReturnValue({
+        file: 'rofl.yaml',
+        manifest: {
+          name: 'my-app',
+          deployments: {
+            default: {
+              app_id: 'rofl1app',
+              machines: {
+                default: { provider: 'oasis1provider', id: '0000000000000014' }
+              }
+            }
+          }
+        }
+      })
+      mockExec.mockImplementation(async (...args: unknown[]) => {
+        const [, execArgs, options] = args as [
+          string,
+          string[],
+          { listeners?: { stdout?: (data: Buffer) => void } } | undefined
+        ]
+        if (execArgs[1] === 'build') {
+          options?.listeners?.stdout?.(
+            Buffer.from(
+              'Built enclave identities:\n  - ID1\n  - ID2\n' +
+                "ROFL app built and bundle written to 'my-app.default.orc'.\n"
+            )
+          )
+        }
+        return 0
+      })
+
+      await run()
+
+      expect(mockSetOutput).toHaveBeenCalledWith(
+        'build_output',
+        'my-app.default.orc'
+      )
+      expect(mockSetOutput).toHaveBeenCalledWith(
+        'enclave_ids',
+        JSON.stringify(['ID1', 'ID2'])
+      )
+      expect(mockSetOutput).toHaveBeenCalledWith('app_id', 'rofl1app')
+      expect(mockSetOutput).toHaveBeenCalledWith(
+        'machine_id',
+        '0000000000000014'
+      )
+      expect(mockSetOutput).toHaveBeenCalledWith('provider', 'oasis1provider')
+      expect(mockSetFailed).not.toHaveBeenCalled()
+    })
+
+    it('should not read machine details when deploy is skipped', async () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'network') return 'testnet'
+        if (name === 'skip_deploy') return 'true'
+        return ''
+      })
+      mockLoadManifest.mockReturnValue({
+        file: 'rofl.yaml',
+        manifest: {
+          deployments: {
+            default: { machines: { default: { id: '0000000000000014' } } }
+          }
+        }
+      })
+
+      await run()
+
+      expect(mockSetOutput).not.toHaveBeenCalledWith(
+        'machine_id',
+        expect.anything()
+      )
+    })
+  })
+
+  describe('bundle digest and provenance', () => {
+    it('should hash the bundle and write its provenance next to it', async () => {
+      const env = { ...process.env }
+      process.env.GITHUB_SHA = 'abc123'
+      process.env.GITHUB_SERVER_URL = 'https://github.com'
+      process.env.GITHUB_REPOSITORY = 'org/app'
+      process.env.GITHUB_RUN_ID = '42'
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'network') return 'testnet'
+        if (name === 'output') return 'app.orc'
+        if (name === 'no_container') return 'true'
+        return ''
+      })
+      mockReadFileSync.mockReturnValue('bundle')
+      mockExec.mockImplementation(async (...args: unknown[]) => {
+        const [, execArgs, options] = args as [
+          string,
+          string[],
+          { listeners?: { stdout?: (data: Buffer) => void } } | undefined
+        ]
+        if (execArgs[1] === 'build') {
+          options?.listeners?.stdout?.(
+            Buffer.from('Built enclave identities:\n  - ID1\n')
+          )
+        }
+        return 0
+      })
+
+      try {
+        await run()
+      } finally {
+        process.env = env
+      }
+
+      const bundleDigest = mockSetOutput.mock.calls.find(
+        (c) => c[0] === 'bundle_digest'
+      )?.[1]
+      expect(bundleDigest).toMatch(/^sha256:[0-9a-f]{64}$/)
+
+      expect(mockWriteFileSync).toHaveBeenCalledWith(
+        'app.orc.provenance.json',
+        expect.any(String)
+      )
+      const provenance = JSON.parse(
+        mockWriteFileSync.mock.calls[0][1] as string
+      )
+      expect(provenance).toEqual({
+        bundle: 'app.orc',
+        bundle_digest: bundleDigest,
+        deployment: 'default',
+        cli_version: '0.18.1',
+        git_commit: 'abc123',
+        manifest: 'rofl.yaml',
+        manifest_digest: bundleDigest,
+        enclave_ids: ['ID1'],
+        builder: 'no_container',
+        workflow_run: expect.objectContaining({
+          run_id: '42',
+          url: 'https://github.com/org/app/actions/runs/42'
+        }),
+        created_at: expect.any(String)
+      })
+      expect(mockSetOutput).toHaveBeenCalledWith(
+        'provenance_file',
+        'app.orc.provenance.json'
+      )
+    })
+
+    it('should record the rofl.yaml digest from before the build', async () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'network') return 'testnet'
+        if (name === 'output') return 'app.orc'
+        if (name === 'update_manifest') return 'true'
+        return ''
+      })
+      let manifestText = 'source manifest'
+      mockReadFileSync.mockImplementation((file: unknown) =>
+        file === 'rofl.yaml' ? manifestText : 'bundle'
+      )
+      mockExec.mockImplementation(async (...args: unknown[]) => {
+        // The build records the new enclave IDs in rofl.yaml
+        if ((args[1] as string[])[1] === 'build') {
+          manifestText = 'updated manifest'
+        }
+        return 0
+      })
+
+      await run()
+
+      const provenance = JSON.parse(
+        mockWriteFileSync.mock.calls[0][1] as string
+      )
+      expect(provenance.manifest_digest).toBe(
+        `sha256:${createHash('sha256').update('source manifest').digest('hex')}`
+      )
+    })
+
+    it('should write an in-toto statement when attest_bundle is set', async () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'network') return 'testnet'
+        if (name === 'output') return 'app.orc'
+        if (name === 'attest_bundle') return 'true'
+        if (name === 'wallet_import') return 'true'
+        if (name === 'wallet_secret') return 'word word word'
+        return ''
+      })
+
+      await run()
+
+      expect(mockSetOutput).toHaveBeenCalledWith(
+        'attestation_file',
+        'app.orc.intoto.json'
+      )
+      const call = mockWriteFileSync.mock.calls.find(
+        (c) => c[0] === 'app.orc.intoto.json'
+      )
+      const statement = JSON.parse(call?.[1] as string)
+      expect(statement.subject[0].name).toBe('app.orc')
+      expect(JSON.stringify(statement)).not.toContain('word word word')
+      expect(
+        statement.predicate.buildDefinition.resolvedDependencies
+      ).toContainEqual(expect.objectContaining({ digest: { sha256: 'c11' } }))
+    })
+
+    it('should skip the digest when no bundle was written', async () => {
+      mockGetInput.mockImplementation((name: string) =>
+        name === 'network' ? 'testnet' : ''
+      )
+
+      await run()
+
+      expect(mockWriteFileSync).not.toHaveBeenCalled()
+      expect(mockSetOutput).not.toHaveBeenCalledWith(
+        'bundle_digest',
+        expect.anything()
+      )
+    })
+  })
+
+  describe('job summary', () => {
+    it('should write the summary when a step fails', async () => {
+      mockGetInput.mockImplementation((name: string) =>
+        name === 'network' ? 'testnet' : ''
+      )
+      mockExec.mockImplementation(async (...args: unknown[]) => {
+        if ((args[1] as string[])[1] === 'update') {
+          throw new Error('update failed')
+        }
+        return 0
+      })
+
+      await run()
+
+      expect(mockSetFailed).toHaveBeenCalledWith('update failed')
+      const [, steps] = mockSummary.addTable.mock.calls as unknown[][]
+      expect(steps[0]).toEqual(
+        expect.arrayContaining([
+          ['ROFL build', 'default', 'Ran', expect.any(String)],
+          ['ROFL update', 'default', 'Failed', expect.any(String)],
+          ['ROFL deploy', 'default', 'Not run', '']
+        ])
+      )
+      expect(mockInfo).toHaveBeenCalledWith(
+        'Oasis CLI: 0.18.1 (auto, tooling.version 0.18.1 in rofl.yaml)'
+      )
+    })
+
+    it('should not fail the run when the summary cannot be written', async () => {
+      mockSummary.write.mockRejectedValueOnce(
+        new Error('Unable to find environment variable')
+      )
+
+      await run()
+
+      expect(mockSetFailed).not.toHaveBeenCalled()
+      expect(mockWarning).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to write the job summary')
+      )
+    })
+  })
+
+  describe('plan only', () => {
+    it('should report the plan without installing or executing anything', async () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'network') return 'testnet'
+        if (name === 'plan_only') return 'true'
+        if (name === 'wallet_import') return 'true'
+        if (name === 'wallet_secret') return 'super secret'
+        return ''
+      })
+
+      await run()
+
+      expect(mockInstallOasisCLI).not.toHaveBeenCalled()
+      expect(mockExec).not.toHaveBeenCalled()
+      expect(mockSummary.write).toHaveBeenCalled()
+
+      const planCall = mockSetOutput.mock.calls.find((c) => c[0] === 'plan')
+      const plan = JSON.parse(planCall?.[1] as string)
+      expect(plan.steps.map((s: { id: string }) => s.id)).toContain('build')
+      expect(planCall?.[1]).not.toContain('super secret')
+      expect(mockSetFailed).not.toHaveBeenCalled()
+    })
+  })
+
   describe('working directory handling', () => {
     it('should change to working directory when it exists', async () => {
       mockGetInput.mockImplementation((name: string) => {
@@ -302,6 +1011,444 @@ describe('main module', () => {
     })
   })
 
+  describe('artifact change report', () => {
+    const release =
+      'https://github.com/oasisprotocol/oasis-boot/releases/download'
+
+    beforeEach(() => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'check_updates') return 'true'
+        if (name === 'create_update_pr') return 'true'
+        return ''
+      })
+      mockLoadManifest
+        .mockReturnValueOnce({
+          file: 'rofl.yaml',
+          manifest: {
+            artifacts: {
+              firmware: `${release}/v0.4.1/ovmf.tdx.fd#aaaa`,
+              kernel: `${release}/v0.4.1/stage1.bin#bbbb`
+            }
+          }
+        })
+        .mockReturnValueOnce({
+          file: 'rofl.yaml',
+          manifest: {
+            artifacts: {
+              firmware: `${release}/v0.5.0/ovmf.tdx.fd#cccc`,
+              kernel: `${release}/v0.4.1/stage1.bin#bbbb`
+            }
+          }
+        })
+      // git diff --exit-code reports changes
+      mockExec.mockImplementation(async (cmd, args) =>
+        cmd === 'git' && args?.[0] === 'diff' ? 1 : 0
+      )
+    })
+
+    it('should output the changed artifacts', async () => {
+      await run()
+
+      const output = mockSetOutput.mock.calls.find(
+        (c) => c[0] === 'updated_artifacts'
+      )
+      expect(JSON.parse(output?.[1] as string)).toEqual([
+        {
+          artifact: 'firmware',
+          old: {
+            uri: `${release}/v0.4.1/ovmf.tdx.fd`,
+            digest: 'aaaa',
+            version: '0.4.1'
+          },
+          new: {
+            uri: `${release}/v0.5.0/ovmf.tdx.fd`,
+            digest: 'cccc',
+            version: '0.5.0'
+          }
+        }
+      ])
+    })
+
+    it('should list the changed artifacts in the pull request body', async () => {
+      await run()
+
+      const createCall = mockExec.mock.calls.find(
+        (c) => c[0] === 'gh' && c[1]?.[1] === 'create'
+      )
+      const body = createCall?.[1]?.[createCall[1].indexOf('--body') + 1]
+      expect(body).toContain('| Artifact | Old | New |')
+      expect(body).toContain('| firmware | **0.4.1**')
+      expect(body).not.toContain('| kernel |')
+      expect(body).toContain('Generated by `oasis rofl upgrade`')
+    })
+  })
+
+  describe('update pull request', () => {
+    beforeEach(() => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'check_updates') return 'true'
+        if (name === 'create_update_pr') return 'true'
+        if (name === 'update_branch_prefix') return 'deps/rofl-'
+        return ''
+      })
+    })
+
+    it('should reuse an open PR on a branch with the prefix', async () => {
+      mockExec.mockImplementation(async (cmd, args, options) => {
+        // The PR branch already has the same manifest
+        if (cmd === 'git' && args?.[0] === 'diff') {
+          return args[1] === '--quiet' ? 0 : 1
+        }
+        if (cmd === 'gh' && args?.[1] === 'list') {
+          options?.listeners?.stdout?.(
+            Buffer.from(
+              JSON.stringify([
+                {
+                  url: 'https://github.com/o/r/pull/7',
+                  headRefName: 'deps/rofl-2025-01-01'
+                }
+              ])
+            )
+          )
+        }
+        return 0
+      })
+
+      await run()
+
+      expect(mockSetOutput).toHaveBeenCalledWith(
+        'update_pr_url',
+        'https://github.com/o/r/pull/7'
+      )
+      const pushCall = mockExec.mock.calls.find(
+        (c) => c[0] === 'git' && c[1]?.[0] === 'push'
+      )
+      expect(pushCall).toBeUndefined()
+      const createCall = mockExec.mock.calls.find(
+        (c) => c[0] === 'gh' && c[1]?.[1] === 'create'
+      )
+      expect(createCall).toBeUndefined()
+    })
+
+    it('should refresh an open PR when newer updates are available', async () => {
+      mockExec.mockImplementation(async (cmd, args, options) => {
+        // The manifest differs from both the base and the PR branch
+        if (cmd === 'git' && args?.[0] === 'diff') return 1
+        if (cmd === 'git' && args?.[0] === 'ls-remote') {
+          options?.listeners?.stdout?.(
+            Buffer.from('abc\trefs/heads/deps/rofl-2025-01-01')
+          )
+        }
+        if (cmd === 'gh' && args?.[1] === 'list') {
+          options?.listeners?.stdout?.(
+            Buffer.from(
+              JSON.stringify([
+                {
+                  url: 'https://github.com/o/r/pull/7',
+                  headRefName: 'deps/rofl-2025-01-01'
+                }
+              ])
+            )
+          )
+        }
+        return 0
+      })
+
+      await run()
+
+      expect(mockExec).toHaveBeenCalledWith('git', [
+        'push',
+        '-u',
+        'origin',
+        'deps/rofl-2025-01-01',
+        '--force'
+      ])
+      const edit = mockExec.mock.calls.find(
+        (c) => c[0] === 'gh' && c[1]?.[1] === 'edit'
+      )
+      expect(edit?.[1]?.slice(0, 4)).toEqual([
+        'pr',
+        'edit',
+        'https://github.com/o/r/pull/7',
+        '--body'
+      ])
+      const comment = mockExec.mock.calls.find(
+        (c) => c[0] === 'gh' && c[1]?.[1] === 'comment'
+      )
+      expect(comment?.[1]?.[4]).toContain('Refreshed with the latest')
+      const createCall = mockExec.mock.calls.find(
+        (c) => c[0] === 'gh' && c[1]?.[1] === 'create'
+      )
+      expect(createCall).toBeUndefined()
+    })
+
+    it('should push a branch with the prefix and open a PR', async () => {
+      mockExec.mockImplementation(async (cmd, args) =>
+        cmd === 'git' && args?.[0] === 'diff' ? 1 : 0
+      )
+
+      await run()
+
+      const checkout = mockExec.mock.calls.find(
+        (c) => c[0] === 'git' && c[1]?.[0] === 'checkout'
+      )
+      expect(checkout?.[1]?.[2]).toMatch(/^deps\/rofl-\d{4}-\d{2}-\d{2}$/)
+      const createCall = mockExec.mock.calls.find(
+        (c) => c[0] === 'gh' && c[1]?.[1] === 'create'
+      )
+      expect(createCall?.[1]).toEqual(
+        expect.arrayContaining(['--head', checkout?.[1]?.[2]])
+      )
+    })
+  })
+
+  describe('update build validation', () => {
+    beforeEach(() => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'check_updates') return 'true'
+        if (name === 'create_update_pr') return 'true'
+        if (name === 'validate_update') return 'true'
+        return ''
+      })
+    })
+
+    /**
+     * Mock exec with a changed manifest and the given rofl build result
+     */
+    function mockBuild(exitCode: number, output: string): void {
+      mockExec.mockImplementation(async (cmd, args, options) => {
+        if (cmd === 'git' && args?.[0] === 'diff') return 1
+        if (cmd === 'oasis' && args?.[1] === 'build') {
+          options?.listeners?.stdout?.(Buffer.from(output))
+          return exitCode
+        }
+        if (cmd === 'gh' && args?.[1] === 'create') {
+          options?.listeners?.stdout?.(
+            Buffer.from(
+              args[0] === 'issue'
+                ? 'https://github.com/o/r/issues/9'
+                : 'https://github.com/o/r/pull/8'
+            )
+          )
+        }
+        return 0
+      })
+    }
+
+    function ghCall(kind: string, action: string) {
+      return mockExec.mock.calls.find(
+        (c) => c[0] === 'gh' && c[1]?.[0] === kind && c[1]?.[1] === action
+      )
+    }
+
+    it('should build without verification and list the enclave IDs in the PR', async () => {
+      mockBuild(0, 'Built enclave identities:\n  - AAAA\n')
+
+      await run()
+
+      const build = mockExec.mock.calls.find(
+        (c) => c[0] === 'oasis' && c[1]?.[1] === 'build'
+      )
+      expect(build?.[1]).not.toContain('--verify')
+      const create = ghCall('pr', 'create')
+      const body = create?.[1]?.[create[1].indexOf('--body') + 1]
+      expect(body).toContain('- `default`: `AAAA`')
+      expect(mockSetOutput).toHaveBeenCalledWith(
+        'update_pr_url',
+        'https://github.com/o/r/pull/8'
+      )
+      expect(mockSetFailed).not.toHaveBeenCalled()
+    })
+
+    it('should open an issue with the build log instead of a PR', async () => {
+      mockBuild(1, 'error: failed to fetch stage2\n')
+
+      await run()
+
+      const issue = ghCall('issue', 'create')
+      expect(issue?.[1]?.[3]).toBe('ROFL artifact update failed to build')
+      expect(issue?.[1]?.[5]).toContain('error: failed to fetch stage2')
+      expect(ghCall('pr', 'create')).toBeUndefined()
+      expect(mockSetOutput).toHaveBeenCalledWith(
+        'update_issue_url',
+        'https://github.com/o/r/issues/9'
+      )
+      expect(mockSetFailed).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'The upgraded manifest failed to build for deployment default'
+        )
+      )
+    })
+
+    it('should not build when there are no updates', async () => {
+      mockExec.mockResolvedValue(0)
+
+      await run()
+
+      const build = mockExec.mock.calls.find(
+        (c) => c[0] === 'oasis' && c[1]?.[1] === 'build'
+      )
+      expect(build).toBeUndefined()
+    })
+  })
+
+  describe('manifest glob', () => {
+    /**
+     * Mock the action inputs with a manifest glob and exec with a changed
+     * manifest in the given apps
+     */
+    function mockApps(changed: string[], inputs: Record<string, string> = {}) {
+      mockGetInput.mockImplementation(
+        (name: string) =>
+          ({
+            check_updates: 'true',
+            create_update_pr: 'true',
+            manifest_glob: 'apps/*/rofl.yaml',
+            ...inputs
+          })[name] ?? ''
+      )
+      mockFindManifests.mockReturnValue([
+        'apps/a/rofl.yaml',
+        'apps/b/rofl.yaml'
+      ])
+      mockExistsSync.mockImplementation((file) => file !== 'rofl.yml')
+      mockExec.mockImplementation(async (cmd, args, options) => {
+        if (cmd === 'git' && args?.[0] === 'diff') {
+          const app = mockChdir.mock.calls.at(-1)?.[0]
+          return changed.includes(app as string) ? 1 : 0
+        }
+        if (cmd === 'gh' && args?.[1] === 'create') {
+          const head = args[args.indexOf('--head') + 1]
+          options?.listeners?.stdout?.(
+            Buffer.from(`https://github.com/o/r/pull/${head}`)
+          )
+        }
+        return 0
+      })
+    }
+
+    function ghCreates() {
+      return mockExec.mock.calls.filter(
+        (c) => c[0] === 'gh' && c[1]?.[0] === 'pr' && c[1]?.[1] === 'create'
+      )
+    }
+
+    it('should upgrade each app and open one PR for the changed apps', async () => {
+      mockApps(['apps/b'])
+
+      await run()
+
+      expect(mockChdir).toHaveBeenCalledWith('apps/a')
+      expect(mockChdir).toHaveBeenCalledWith('apps/b')
+      expect(
+        mockExec.mock.calls.filter(
+          (c) => c[0] === 'oasis' && c[1]?.[1] === 'upgrade'
+        )
+      ).toHaveLength(2)
+      expect(mockSetOutput).toHaveBeenCalledWith('updates_available', 'true')
+      expect(mockSetOutput).toHaveBeenCalledWith(
+        'updated_apps',
+        JSON.stringify(['apps/b'])
+      )
+      expect(mockExec).toHaveBeenCalledWith('git', ['add', 'apps/b/rofl.yaml'])
+      expect(ghCreates()).toHaveLength(1)
+      expect(mockSetOutput).toHaveBeenCalledWith(
+        'update_pr_urls',
+        expect.stringContaining('"apps/b":')
+      )
+      expect(mockSetFailed).not.toHaveBeenCalled()
+    })
+
+    it('should open a PR per app in per-app mode', async () => {
+      mockApps(['apps/a', 'apps/b'], { update_pr_mode: 'per-app' })
+
+      await run()
+
+      const creates = ghCreates()
+      expect(creates).toHaveLength(2)
+      expect(creates[0][1]).toEqual(
+        expect.arrayContaining([
+          '--title',
+          'chore: update ROFL artifacts to latest versions (apps/a)'
+        ])
+      )
+      const heads = creates.map((c) => c[1]?.[c[1].indexOf('--head') + 1])
+      expect(heads[0]).toMatch(/^rofl-update-apps-a-\d{4}-\d{2}-\d{2}$/)
+      expect(heads[1]).toMatch(/^rofl-update-apps-b-\d{4}-\d{2}-\d{2}$/)
+      const urls = JSON.parse(
+        mockSetOutput.mock.calls.find(
+          (c) => c[0] === 'update_pr_urls'
+        )?.[1] as string
+      )
+      expect(Object.keys(urls)).toEqual(['apps/a', 'apps/b'])
+      // Each app's branch starts from the original checkout, not the previous
+      // app's commit
+      const checkouts = mockExec.mock.calls
+        .filter((c) => c[0] === 'git' && c[1]?.[0] === 'checkout')
+        .map((c) => c[1]?.slice(1).join(' '))
+      expect(checkouts).toEqual([`-B ${heads[0]}`, '-', `-B ${heads[1]}`, '-'])
+      const adds = mockExec.mock.calls.filter(
+        (c) => c[0] === 'git' && c[1]?.[0] === 'add'
+      )
+      expect(adds.map((c) => c[1])).toEqual([
+        ['add', 'apps/a/rofl.yaml'],
+        ['add', 'apps/b/rofl.yaml']
+      ])
+    })
+
+    it('should report an app that fails to build and propose the others', async () => {
+      mockApps(['apps/a', 'apps/b'], { validate_update: 'true' })
+      const exec = mockExec.getMockImplementation()
+      mockExec.mockImplementation(async (cmd, args, options) => {
+        if (cmd === 'oasis' && args?.[1] === 'build') {
+          return mockChdir.mock.calls.at(-1)?.[0] === 'apps/a' ? 1 : 0
+        }
+        return exec?.(cmd, args, options)
+      })
+
+      await run()
+
+      const issue = mockExec.mock.calls.find(
+        (c) => c[0] === 'gh' && c[1]?.[0] === 'issue' && c[1]?.[1] === 'create'
+      )
+      expect(issue?.[1]?.[3]).toBe(
+        'ROFL artifact update failed to build (apps/a)'
+      )
+      const creates = ghCreates()
+      expect(creates).toHaveLength(1)
+      expect(creates[0][1]?.[creates[0][1].indexOf('--body') + 1]).toContain(
+        '### `apps/b`'
+      )
+      expect(mockSetFailed).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'failed to build for deployment default of apps/a'
+        )
+      )
+    })
+
+    it('should not open a PR when no app changed', async () => {
+      mockApps([])
+
+      await run()
+
+      expect(mockSetOutput).toHaveBeenCalledWith('updates_available', 'false')
+      expect(mockSetOutput).toHaveBeenCalledWith('updated_apps', '[]')
+      expect(ghCreates()).toHaveLength(0)
+    })
+
+    it('should fail when no manifest matches', async () => {
+      mockApps([])
+      mockFindManifests.mockReturnValue([])
+
+      await run()
+
+      expect(mockSetFailed).toHaveBeenCalledWith(
+        'manifest_glob: no manifests match "apps/*/rofl.yaml"'
+      )
+      expect(mockInstallOasisCLI).not.toHaveBeenCalled()
+    })
+  })
+
   describe('Linux dependency installation', () => {
     const originalPlatform = process.platform
 
@@ -425,12 +1572,20 @@ describe('main module', () => {
         if (name === 'update_output_file') return 'update.cbor'
         return ''
       })
-      mockRunSafeProposal.mockResolvedValue('0xtxhash')
+      mockRunSafeProposal.mockResolvedValue({
+        safeTxHash: '0xtxhash',
+        previews: [],
+        previewFile: 'update.cbor.preview.json'
+      })
 
       await run()
 
       expect(mockRunSafeProposal).toHaveBeenCalled()
       expect(mockSetOutput).toHaveBeenCalledWith('safe_tx_hash', '0xtxhash')
+      expect(mockSetOutput).toHaveBeenCalledWith(
+        'safe_preview_file',
+        'update.cbor.preview.json'
+      )
     })
 
     it('should respect safe_dry_run flag', async () => {
@@ -446,7 +1601,11 @@ describe('main module', () => {
         if (name === 'safe_dry_run') return 'true'
         return ''
       })
-      mockRunSafeProposal.mockResolvedValue('0xtxhash')
+      mockRunSafeProposal.mockResolvedValue({
+        safeTxHash: '0xtxhash',
+        previews: [],
+        previewFile: 'update.cbor.preview.json'
+      })
 
       await run()
 
@@ -455,6 +1614,35 @@ describe('main module', () => {
       expect(safeCall[0].dryRun).toBe(true)
     })
 
+    it('should export a Transaction Builder batch with safe_export', async () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'network') return 'testnet'
+        if (name === 'safe_address')
+          return '0x1234567890123456789012345678901234567890'
+        if (name === 'skip_deploy') return 'true'
+        if (name === 'skip_build') return 'true'
+        if (name === 'skip_update') return 'true'
+        if (name === 'update_output_file') return 'update.cbor'
+        if (name === 'safe_export') return 'true'
+        return ''
+      })
+      mockRunSafeProposal.mockResolvedValue({
+        batchFile: 'update.cbor.safe-batch.json',
+        previews: [],
+        previewFile: 'update.cbor.preview.json'
+      })
+
+      await run()
+
+      expect(mockSetFailed).not.toHaveBeenCalled()
+      expect(mockRunSafeProposal.mock.calls[0][0].export).toBe(true)
+      expect(mockExec.mock.calls.some((c) => c[0] === 'npm')).toBe(false)
+      expect(mockSetOutput).toHaveBeenCalledWith(
+        'safe_batch_file',
+        'update.cbor.safe-batch.json'
+      )
+    })
+
     it('should invoke npm install for Safe dependencies', async () => {
       mockGetInput.mockImplementation((name: string) => {
         if (name === 'network') return 'testnet'
@@ -467,7 +1655,11 @@ describe('main module', () => {
         if (name === 'update_output_file') return 'update.cbor'
         return ''
       })
-      mockRunSafeProposal.mockResolvedValue('0xtxhash')
+      mockRunSafeProposal.mockResolvedValue({
+        safeTxHash: '0xtxhash',
+        previews: [],
+        previewFile: 'update.cbor.preview.json'
+      })
 
       await run()
 
@@ -481,4 +1673,210 @@ describe('main module', () => {
       expect(npmCall).toBeDefined()
     })
   })
+
+  describe('Safe network registry', () => {
+    /**
+     * Mock Safe mode inputs for a network, with extra inputs
+     */
+    function mockSafeInputs(network: string, inputs: Record<string, string>) {
+      mockGetInput.mockImplementation(
+        (name: string) =>
+          ({
+            network,
+            safe_address: '0x1234567890123456789012345678901234567890',
+            safe_proposer_key: '0xabc123',
+            skip_deploy: 'true',
+            skip_build: 'true',
+            skip_update: 'true',
+            update_output_file: 'update.cbor',
+            ...inputs
+          })[name] ?? ''
+      )
+    }
+
+    it('should propose on a network from the networks file', async () => {
+      mockSafeInputs('localnet', { safe_networks_file: 'networks.yaml' })
+      mockReadFileSync.mockReturnValue(
+        'localnet:\n' +
+          '  runtime_id: "8000000000000000000000000000000000000000000000000000000000000000"\n' +
+          '  chain_id: 23293\n'
+      )
+      mockRunSafeProposal.mockResolvedValue({
+        safeTxHash: '0xtxhash',
+        previews: [],
+        previewFile: 'update.cbor.preview.json'
+      })
+
+      await run()
+
+      expect(mockSetFailed).not.toHaveBeenCalled()
+      const [safeInputs, , network] = mockRunSafeProposal.mock.calls[0]
+      expect(network).toBe('localnet')
+      expect(safeInputs.networks.localnet.chainId).toBe(23293n)
+    })
+
+    it('should read CLI networks from the config input', async () => {
+      mockSafeInputs('localnet', {
+        safe_cli_networks: 'true',
+        config: 'ci/cli.toml'
+      })
+      mockExistsSync.mockReturnValue(true)
+      mockReadFileSync.mockReturnValue(
+        '[networks.localnet.paratimes.sapphire]\n' +
+          'id = "8000000000000000000000000000000000000000000000000000000000000000"\n'
+      )
+      mockRunSafeProposal.mockResolvedValue({
+        safeTxHash: '0xtxhash',
+        previews: [],
+        previewFile: 'update.cbor.preview.json'
+      })
+
+      await run()
+
+      expect(mockSetFailed).not.toHaveBeenCalled()
+      expect(mockReadFileSync).toHaveBeenCalledWith('ci/cli.toml', 'utf8')
+      const [safeInputs] = mockRunSafeProposal.mock.calls[0]
+      expect(safeInputs.networks.localnet.runtimeId).toBe(
+        '8000000000000000000000000000000000000000000000000000000000000000'
+      )
+    })
+
+    it('should fail before installing the CLI for unknown networks', async () => {
+      mockSafeInputs('localnet', {})
+
+      await run()
+
+      expect(mockSetFailed).toHaveBeenCalledWith(
+        expect.stringContaining('Unknown network: localnet')
+      )
+      expect(mockInstallOasisCLI).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('multiple deployments', () => {
+    it('should run build, update and deploy for each deployment', async () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'network') return 'testnet'
+        if (name === 'deployments') return 'testnet\nmainnet'
+        if (name === 'update_output_file') return 'update.cbor'
+        if (name === 'deploy_output_file') return 'deploy.cbor'
+        return ''
+      })
+
+      await run()
+
+      const roflCalls = mockExec.mock.calls
+        .filter((c) => c[0] === 'oasis' && c[1]?.[0] === 'rofl')
+        .map((c) => c[1] as string[])
+      expect(roflCalls.map((args) => args[1])).toEqual([
+        'build',
+        'update',
+        'deploy',
+        'build',
+        'update',
+        'deploy'
+      ])
+      expect(roflCalls[0]).toEqual(
+        expect.arrayContaining(['--deployment', 'testnet'])
+      )
+      expect(roflCalls[1]).toEqual(
+        expect.arrayContaining(['--output-file', 'update.testnet.cbor'])
+      )
+      expect(roflCalls[5]).toEqual(
+        expect.arrayContaining(['--output-file', 'deploy.mainnet.cbor'])
+      )
+      expect(mockSetFailed).not.toHaveBeenCalled()
+    })
+
+    it('should set one JSON output keyed by deployment name', async () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'network') return 'testnet'
+        if (name === 'deployments') return 'testnet, mainnet'
+        if (name === 'output') return 'app.orc'
+        if (name === 'update_output_file') return 'update.cbor'
+        if (name === 'skip_deploy') return 'true'
+        return ''
+      })
+
+      await run()
+
+      const resultsCall = mockSetOutput.mock.calls.find(
+        (c) => c[0] === 'deployment_results'
+      )
+      expect(JSON.parse(resultsCall?.[1] as string)).toEqual({
+        testnet: {
+          build_output: 'app.testnet.orc',
+          bundle_digest: expect.stringMatching(/^sha256:/),
+          provenance_file: 'app.testnet.orc.provenance.json',
+          update_file: 'update.testnet.cbor'
+        },
+        mainnet: {
+          build_output: 'app.mainnet.orc',
+          bundle_digest: expect.stringMatching(/^sha256:/),
+          provenance_file: 'app.mainnet.orc.provenance.json',
+          update_file: 'update.mainnet.cbor'
+        }
+      })
+      // Per-file outputs are only set for a single deployment
+      expect(mockSetOutput).not.toHaveBeenCalledWith(
+        'update_file',
+        expect.anything()
+      )
+    })
+
+    it('should propose a Safe transaction per deployment', async () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'network') return 'testnet'
+        if (name === 'deployments') return 'testnet\nmainnet'
+        if (name === 'safe_address')
+          return '0x1234567890123456789012345678901234567890'
+        if (name === 'safe_proposer_key') return '0xabc123'
+        if (name === 'skip_deploy') return 'true'
+        if (name === 'update_output_file') return 'update.cbor'
+        return ''
+      })
+      mockRunSafeProposal
+        .mockResolvedValueOnce({
+          safeTxHash: '0xtestnet',
+          previews: [],
+          previewFile: 'update.testnet.cbor.preview.json'
+        })
+        .mockResolvedValueOnce({
+          safeTxHash: '0xmainnet',
+          previews: [],
+          previewFile: 'update.mainnet.cbor.preview.json'
+        })
+
+      await run()
+
+      expect(mockRunSafeProposal).toHaveBeenCalledTimes(2)
+      expect(mockRunSafeProposal.mock.calls[1][1]).toEqual(
+        expect.objectContaining({ updateFile: 'update.mainnet.cbor' })
+      )
+      const npmCalls = mockExec.mock.calls.filter((c) => c[0] === 'npm')
+      expect(npmCalls).toHaveLength(1)
+      const resultsCall = mockSetOutput.mock.calls.find(
+        (c) => c[0] === 'deployment_results'
+      )
+      const results = JSON.parse(resultsCall?.[1] as string)
+      expect(results.testnet.safe_tx_hash).toBe('0xtestnet')
+      expect(results.mainnet.safe_tx_hash).toBe('0xmainnet')
+    })
+
+    it('should reject deployment and deployments together', async () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'network') return 'testnet'
+        if (name === 'deployment') return 'testnet'
+        if (name === 'deployments') return 'testnet\nmainnet'
+        return ''
+      })
+
+      await run()
+
+      expect(mockSetFailed).toHaveBeenCalledWith(
+        expect.stringContaining('set either deployment or deployments')
+      )
+      expect(mockInstallOasisCLI).not.toHaveBeenCalled()
+    })
+  })
 })
@@ -0,0 +1,271 @@
+/**
+ * Unit tests for the rofl.yaml model and pre-flight validation
+ */
+import { jest, describe, it, expect, beforeEach } from '@jest/globals'
+
+const mockExistsSync = jest.fn()
+const mockReadFileSync = jest.fn()
+const mockReaddirSync = jest.fn()
+const mockStatSync = jest.fn()
+
+jest.unstable_mockModule('fs', () => ({
+  existsSync: mockExistsSync,
+  readFileSync: mockReadFileSync,
+  readdirSync: mockReaddirSync,
+  statSync: mockStatSync
+}))
+
+// Import the module after mocking
+const { deploymentValue, findManifests, loadManifest, validateManifest } =
+  await import('../src/manifest.js')
+
+// Directory tree for manifest globs, directories list their entries
+const TREE: Record<string, string[]> = {
+  '.': ['.github', 'apps', 'node_modules', 'rofl.yaml'],
+  '.github': ['rofl.yaml'],
+  apps: ['a', 'b', 'README.md'],
+  'apps/a': ['rofl.yaml'],
+  'apps/b': ['rofl.yml', 'oracle'],
+  'apps/b/oracle': ['rofl.yaml'],
+  node_modules: ['dep'],
+  'node_modules/dep': ['rofl.yaml']
+}
+
+/**
+ * Serve the fs calls of findManifests from TREE
+ */
+function mockTree(): void {
+  const isDirectory = (file: string) => file in TREE
+  const exists = (file: string) =>
+    isDirectory(file) ||
+    Object.entries(TREE).some(([dir, names]) =>
+      names.some((name) => (dir === '.' ? name : `${dir}/${name}`) === file)
+    )
+  mockExistsSync.mockImplementation((file) => exists(file as string))
+  mockStatSync.mockImplementation((file) => ({
+    isDirectory: () => isDirectory(file as string),
+    isFile: () => !isDirectory(file as string)
+  }))
+  mockReaddirSync.mockImplementation((dir, options) => {
+    const names = TREE[dir as string]
+    return (options as { withFileTypes?: boolean } | undefined)?.withFileTypes
+      ? names.map((name) => ({
+          name,
+          isDirectory: () =>
+            isDirectory(dir === '.' ? name : `${dir as string}/${name}`)
+        }))
+      : names
+  })
+}
+
+const MANIFEST = `name: my-app
+version: 0.1.0
+tee: tdx
+kind: container
+resources:
+  memory: 512
+  cpus: 1
+  storage:
+    kind: disk-persistent
+    size: 512
+deployments:
+  testnet:
+    app_id: rofl1qpjsc3qplf2szw7w3rpzrpq5rqvzv4q5x5j23msu
+    network: testnet
+    paratime: sapphire
+    admin: my_account
+    policy:
+      enclaves:
+        - id: AAAA
+      fees: endorsing_node
+      max_expiration: 3
+    machines:
+      default:
+        provider: oasis1qp2ens0hsp7gh23wajxa4hpetkdek3swyyulyrmz
+        offer: playground_short
+        id: 0000000000000014
+  mainnet:
+    network: mainnet
+    paratime: sapphire
+tooling:
+  version: 0.18.1
+`
+
+describe('manifest module', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockExistsSync.mockImplementation((p) => p === 'rofl.yaml')
+    mockReadFileSync.mockReturnValue(MANIFEST)
+  })
+
+  describe('loadManifest', () => {
+    it('should parse deployments, policy and machines', () => {
+      const loaded = loadManifest()
+
+      expect(loaded?.file).toBe('rofl.yaml')
+      const testnet = loaded?.manifest.deployments?.testnet
+      expect(testnet?.paratime).toBe('sapphire')
+      expect(testnet?.policy?.max_expiration).toBe(3)
+      expect(testnet?.machines?.default.offer).toBe('playground_short')
+      expect(loaded?.manifest.resources?.storage?.kind).toBe('disk-persistent')
+    })
+
+    it('should fall back to rofl.yml', () => {
+      mockExistsSync.mockImplementation((p) => p === 'rofl.yml')
+
+      expect(loadManifest()?.file).toBe('rofl.yml')
+      expect(mockReadFileSync).toHaveBeenCalledWith('rofl.yml', 'utf8')
+    })
+
+    it('should return null when there is no manifest', () => {
+      mockExistsSync.mockReturnValue(false)
+
+      expect(loadManifest()).toBeNull()
+    })
+
+    it('should reject a manifest that is not a mapping', () => {
+      mockReadFileSync.mockReturnValue('- just\n- a list\n')
+
+      expect(() => loadManifest()).toThrow(
+        'Failed to parse rofl.yaml: expected a YAML mapping'
+      )
+    })
+
+    it('should report YAML syntax errors', () => {
+      mockReadFileSync.mockReturnValue('name: [unclosed\n')
+
+      expect(() => loadManifest()).toThrow('Failed to parse rofl.yaml:')
+    })
+  })
+
+  describe('findManifests', () => {
+    beforeEach(mockTree)
+
+    it('should match * within a directory', () => {
+      expect(findManifests('apps/*/rofl.yaml')).toEqual(['apps/a/rofl.yaml'])
+    })
+
+    it('should match ? and patterns in file names', () => {
+      expect(findManifests('./apps/?/rofl.y*ml')).toEqual([
+        'apps/a/rofl.yaml',
+        'apps/b/rofl.yml'
+      ])
+    })
+
+    it('should match ** at any depth, without hidden or dependency folders', () => {
+      expect(findManifests('**/rofl.yaml')).toEqual([
+        'apps/a/rofl.yaml',
+        'apps/b/oracle/rofl.yaml',
+        'rofl.yaml'
+      ])
+    })
+
+    it('should return nothing when no file matches', () => {
+      expect(findManifests('services/*/rofl.yaml')).toEqual([])
+    })
+  })
+
+  describe('deploymentValue', () => {
+    it('should return a value shared by all deployments', () => {
+      const manifest = loadManifest()!.manifest
+
+      expect(deploymentValue(manifest, ['testnet'], 'network')).toBe('testnet')
+      expect(deploymentValue(manifest, ['testnet'], 'admin')).toBe('my_account')
+      expect(
+        deploymentValue(manifest, ['testnet', 'mainnet'], 'network')
+      ).toBeUndefined()
+      expect(deploymentValue(manifest, ['mainnet'], 'admin')).toBeUndefined()
+      expect(deploymentValue(manifest, ['missing'], 'network')).toBeUndefined()
+    })
+  })
+
+  describe('validateManifest', () => {
+    const manifest = () => loadManifest()!.manifest
+
+    it('should accept a deployment that matches the network', () => {
+      expect(
+        validateManifest(manifest(), {
+          deployments: ['testnet'],
+          network: 'testnet',
+          requireAppId: true
+        })
+      ).toEqual([])
+    })
+
+    it('should report a misspelled deployment with the available names', () => {
+      expect(
+        validateManifest(manifest(), {
+          deployments: ['tesnet'],
+          network: 'testnet',
+          requireAppId: false
+        })
+      ).toEqual(['deployments.tesnet: not found (available: testnet, mainnet)'])
+    })
+
+    it('should report a network mismatch', () => {
+      expect(
+        validateManifest(manifest(), {
+          deployments: ['testnet'],
+          network: 'mainnet',
+          requireAppId: false
+        })
+      ).toEqual([
+        'deployments.testnet.network: deployment is for testnet but the network input is mainnet'
+      ])
+    })
+
+    it('should accept deployments on different networks without a network input', () => {
+      expect(
+        validateManifest(manifest(), {
+          deployments: ['testnet', 'mainnet'],
+          network: '',
+          requireAppId: false
+        })
+      ).toEqual([])
+    })
+
+    it('should check every deployment against an explicit network input', () => {
+      expect(
+        validateManifest(manifest(), {
+          deployments: ['testnet', 'mainnet'],
+          network: 'mainnet',
+          requireAppId: false
+        })
+      ).toEqual([
+        'deployments.testnet.network: deployment is for testnet but the network input is mainnet'
+      ])
+    })
+
+    it('should require an app_id only for update and deploy', () => {
+      const checks = {
+        deployments: ['mainnet'],
+        network: 'mainnet',
+        requireAppId: false
+      }
+
+      expect(validateManifest(manifest(), checks)).toEqual([])
+      expect(
+        validateManifest(manifest(), { ...checks, requireAppId: true })
+      ).toEqual([
+        'deployments.mainnet.app_id: required for update and deploy (run oasis rofl create first)'
+      ])
+    })
+
+    it('should report every missing or invalid field', () => {
+      expect(
+        validateManifest(
+          { tee: 'sev', kind: 'container', deployments: { default: {} } },
+          { deployments: ['default'], network: 'mainnet', requireAppId: false }
+        )
+      ).toEqual([
+        'name: required',
+        'version: required',
+        'tee: expected one of [sgx, tdx], got "sev"',
+        'resources.memory: required',
+        'resources.cpus: required',
+        'deployments.default.network: required',
+        'deployments.default.paratime: required'
+      ])
+    })
+  })
+})
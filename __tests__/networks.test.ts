@@ -0,0 +1,209 @@
+/**
+ * Unit tests for the Safe network registry
+ */
+import { jest, describe, it, expect, beforeEach } from '@jest/globals'
+
+const mockExistsSync = jest.fn()
+const mockReadFileSync = jest.fn()
+
+jest.unstable_mockModule('fs', () => ({
+  existsSync: mockExistsSync,
+  readFileSync: mockReadFileSync
+}))
+
+// Import the module after mocking
+const {
+  cliConfigPath,
+  DEFAULT_NETWORKS,
+  getNetwork,
+  loadNetworkRegistry,
+  mergeNetworks,
+  parseCliNetworks,
+  parseNetworkFile
+} = await import('../src/networks.js')
+
+const LOCALNET_ID =
+  '8000000000000000000000000000000000000000000000000000000000000000'
+
+// cli.toml as written by oasis network add-local and oasis paratime add
+const CLI_CONFIG = `[networks]
+default = "testnet"
+
+[networks.localnet]
+chain_context = "ab0ea1a2"
+rpc = "http://localhost:8544" # sapphire-localnet
+
+[networks.localnet.denomination]
+symbol = "TEST"
+decimals = 18
+
+[networks.localnet.paratimes]
+default = "sapphire"
+
+[networks.localnet.paratimes.sapphire]
+id = "${LOCALNET_ID}"
+
+[networks.localnet.paratimes.sapphire.denominations._]
+symbol = "TEST"
+decimals = 18
+
+[networks.'no-sapphire']
+rpc = "grpc.example.com:443"
+`
+
+const NETWORKS_FILE = `localnet:
+  chain_id: 23293
+  web3: http://localhost:8545
+  safe_service: http://localhost:8000/api
+testnet:
+  safe_service: https://safe.example.com/api
+`
+
+describe('networks module', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('cliConfigPath', () => {
+    it('should use XDG_CONFIG_HOME on Linux', () => {
+      expect(cliConfigPath({ XDG_CONFIG_HOME: '/config' }, 'linux')).toBe(
+        '/config/oasis/cli.toml'
+      )
+    })
+  })
+
+  describe('parseCliNetworks', () => {
+    it('should read the gRPC endpoint and Sapphire runtime ID', () => {
+      expect(parseCliNetworks(CLI_CONFIG, 'cli.toml')).toEqual({
+        localnet: { runtimeId: LOCALNET_ID, grpcApi: 'http://localhost:8544' }
+      })
+    })
+
+    it('should skip networks without the default ParaTime', () => {
+      expect(
+        parseCliNetworks(CLI_CONFIG, 'cli.toml')['no-sapphire']
+      ).toBeUndefined()
+    })
+
+    it('should read inline tables and skip arrays', () => {
+      const config =
+        'wallets = ["alice", "bob"]\n' +
+        '[networks.localnet]\n' +
+        'rpc = "unix:/serverdir/node/internal.sock"\n' +
+        `paratimes = { default = "emerald", emerald = { id = "${LOCALNET_ID}" } }\n`
+
+      expect(parseCliNetworks(config, 'cli.toml')).toEqual({
+        localnet: {
+          runtimeId: LOCALNET_ID,
+          grpcApi: 'unix:/serverdir/node/internal.sock'
+        }
+      })
+    })
+
+    it('should reject invalid TOML', () => {
+      expect(() =>
+        parseCliNetworks('[networks.localnet\nrpc = 1', 'cli.toml')
+      ).toThrow('Failed to parse cli.toml')
+    })
+  })
+
+  describe('parseNetworkFile', () => {
+    it('should convert the entries', () => {
+      expect(parseNetworkFile(NETWORKS_FILE, 'networks.yaml')).toEqual({
+        localnet: {
+          chainId: 23293n,
+          web3Api: 'http://localhost:8545',
+          safeApi: 'http://localhost:8000/api'
+        },
+        testnet: { safeApi: 'https://safe.example.com/api' }
+      })
+    })
+
+    it('should accept JSON', () => {
+      expect(
+        parseNetworkFile(
+          JSON.stringify({ localnet: { runtime_id: LOCALNET_ID } }),
+          'networks.json'
+        )
+      ).toEqual({ localnet: { runtimeId: LOCALNET_ID } })
+    })
+
+    it('should report every invalid field', () => {
+      expect(() =>
+        parseNetworkFile(
+          'localnet:\n  chain_id: -1\n  runtime_id: 80\n  web: x\n',
+          'networks.yaml'
+        )
+      ).toThrow(
+        'Invalid networks.yaml:\n' +
+          '  - localnet.chain_id: expected a positive integer, got "-1"\n' +
+          '  - localnet.runtime_id: expected a 32-byte hex runtime ID\n' +
+          '  - localnet.web: unknown field'
+      )
+    })
+  })
+
+  describe('mergeNetworks', () => {
+    it('should override the fields an entry sets', () => {
+      const merged = mergeNetworks(
+        DEFAULT_NETWORKS,
+        { testnet: { safeApi: 'https://safe.example.com/api' } },
+        'networks.yaml'
+      )
+
+      expect(merged.testnet).toEqual({
+        ...DEFAULT_NETWORKS.testnet,
+        safeApi: 'https://safe.example.com/api'
+      })
+    })
+
+    it('should require a runtime ID for new networks', () => {
+      expect(() =>
+        mergeNetworks(
+          DEFAULT_NETWORKS,
+          { localnet: { chainId: 23293n } },
+          'networks.yaml'
+        )
+      ).toThrow('Network localnet in networks.yaml has no runtime_id')
+    })
+  })
+
+  describe('loadNetworkRegistry', () => {
+    it('should combine the CLI config and the networks file', () => {
+      mockExistsSync.mockReturnValue(true)
+      mockReadFileSync.mockImplementation((file) =>
+        file === 'cli.toml' ? CLI_CONFIG : NETWORKS_FILE
+      )
+
+      const registry = loadNetworkRegistry({
+        cliConfig: 'cli.toml',
+        file: 'networks.yaml'
+      })
+
+      expect(registry.localnet).toEqual({
+        runtimeId: LOCALNET_ID,
+        grpcApi: 'http://localhost:8544',
+        chainId: 23293n,
+        web3Api: 'http://localhost:8545',
+        safeApi: 'http://localhost:8000/api'
+      })
+      expect(registry.mainnet).toEqual(DEFAULT_NETWORKS.mainnet)
+    })
+
+    it('should fail when the networks file is missing', () => {
+      mockExistsSync.mockReturnValue(false)
+
+      expect(() => loadNetworkRegistry({ file: 'networks.yaml' })).toThrow(
+        'safe_networks_file not found: networks.yaml'
+      )
+    })
+  })
+
+  describe('getNetwork', () => {
+    it('should list the known networks for unknown ones', () => {
+      expect(() => getNetwork(DEFAULT_NETWORKS, 'localnet')).toThrow(
+        'Unknown network: localnet. Supported: mainnet, testnet.'
+      )
+    })
+  })
+})
@@ -0,0 +1,338 @@
+/**
+ * Unit tests for the execution plan builder
+ */
+import { describe, it, expect } from '@jest/globals'
+import { ActionInputs } from '../src/inputs.js'
+import {
+  buildPlan,
+  deploymentFile,
+  planToJSON,
+  redactArgs,
+  stepTitle
+} from '../src/plan.js'
+
+// Inputs as parsed from an empty workflow step (action.yml defaults applied)
+const defaultInputs: ActionInputs = {
+  cliVersion: 'auto',
+  cliSha256: '',
+  cliDownloadBaseUrl: '',
+  cliArchivePath: '',
+  githubToken: undefined,
+  checkUpdates: false,
+  createUpdatePr: false,
+  validateUpdate: false,
+  manifestGlob: '',
+  updatePrMode: 'combined',
+  updatePrMethod: 'git',
+  updateBranchPrefix: 'rofl-update-',
+  updatePrBase: '',
+  updatePrTitle: 'chore: update ROFL artifacts to latest versions',
+  updatePrLabels: [],
+  updatePrReviewers: [],
+  updatePrAssignees: [],
+  updatePrDraft: false,
+  updateCommitAuthor:
+    'github-actions[bot] <github-actions[bot]@users.noreply.github.com>',
+  planOnly: false,
+  attestBundle: false,
+  config: '',
+  deployment: '',
+  deployments: [],
+  encrypted: false,
+  feeDenom: '',
+  force: false,
+  format: '',
+  gasLimit: '',
+  gasPrice: '',
+  machine: '',
+  network: 'mainnet',
+  noContainer: false,
+  noUpdateManifest: false,
+  updateManifest: false,
+  nonce: '',
+  offer: '',
+  offline: false,
+  onlyValidate: false,
+  output: '',
+  outputFile: '',
+  provider: '',
+  replaceMachine: false,
+  showOffers: false,
+  term: '',
+  termCount: '',
+  unsigned: false,
+  verbose: false,
+  verify: false,
+  walletAccount: 'test:alice',
+  walletImport: false,
+  walletAlgorithm: '',
+  walletNumber: '',
+  walletSecret: '',
+  wipeStorage: false,
+  workingDirectory: '',
+  skipBuild: false,
+  skipUpdate: false,
+  skipDeploy: false,
+  updateOutputFile: '',
+  deployOutputFile: '',
+  safeAddress: '',
+  safeProposerKey: '',
+  safeRpcUrl: '',
+  safeServiceUrl: '',
+  safeChainId: '',
+  safeDryRun: false,
+  safeExport: false,
+  safeNetworksFile: '',
+  safeCliNetworks: false
+}
+
+describe('plan module', () => {
+  describe('buildPlan', () => {
+    it('should order setup steps before per-deployment steps', () => {
+      const plan = buildPlan(defaultInputs, 'linux')
+
+      expect(plan.steps.map((s) => s.id)).toEqual([
+        'build-deps',
+        'wallet-import',
+        'wallet-default',
+        'safe-deps',
+        'network',
+        'build',
+        'update',
+        'deploy',
+        'safe-propose'
+      ])
+      expect(plan.deployments).toEqual(['default'])
+    })
+
+    it('should build the rofl build command with --verify by default', () => {
+      const plan = buildPlan(
+        { ...defaultInputs, deployment: 'testnet', output: 'app.orc' },
+        'linux'
+      )
+
+      const build = plan.steps.find((s) => s.id === 'build')
+      expect(build?.args).toEqual([
+        'rofl',
+        'build',
+        '--deployment',
+        'testnet',
+        '--output',
+        'app.orc',
+        '--verify'
+      ])
+      expect(build?.outputFile).toBe('app.orc')
+    })
+
+    it('should not verify when update_manifest is set', () => {
+      const plan = buildPlan(
+        { ...defaultInputs, updateManifest: true, noUpdateManifest: false },
+        'linux'
+      )
+
+      const build = plan.steps.find((s) => s.id === 'build')
+      expect(build?.args).not.toContain('--verify')
+    })
+
+    it('should explain why steps are skipped', () => {
+      const plan = buildPlan(
+        { ...defaultInputs, skipBuild: true, onlyValidate: true },
+        'darwin'
+      )
+
+      const skipped = Object.fromEntries(
+        plan.steps.map((s) => [s.id, s.skipped])
+      )
+      expect(skipped).toEqual({
+        'build-deps': 'not running on Linux',
+        network: undefined,
+        'wallet-import': 'wallet_import is not set',
+        'wallet-default': 'wallet_import is not set',
+        'safe-deps': 'safe_address is not set',
+        build: 'skip_build is set',
+        update: 'only_validate is set',
+        deploy: 'only_validate is set',
+        'safe-propose': 'safe_address is not set'
+      })
+    })
+
+    it('should plan each deployment with its own output files', () => {
+      const plan = buildPlan(
+        {
+          ...defaultInputs,
+          deployments: ['testnet', 'mainnet'],
+          updateOutputFile: 'update.cbor',
+          outputFile: 'tx.json'
+        },
+        'linux'
+      )
+
+      const updates = plan.steps.filter((s) => s.id === 'update')
+      expect(updates.map((s) => [s.deployment, s.outputFile])).toEqual([
+        ['testnet', 'update.testnet.cbor'],
+        ['mainnet', 'update.mainnet.cbor']
+      ])
+      const deploys = plan.steps.filter((s) => s.id === 'deploy')
+      expect(deploys[1].args).toEqual(
+        expect.arrayContaining([
+          '--deployment',
+          'mainnet',
+          '--output-file',
+          'tx.mainnet.json'
+        ])
+      )
+    })
+
+    it('should use the network and account of each deployment', () => {
+      const plan = buildPlan(
+        {
+          ...defaultInputs,
+          deployments: ['testnet', 'mainnet'],
+          deploymentNetworks: { testnet: 'testnet', mainnet: 'mainnet' },
+          deploymentAccounts: { testnet: 'tester', mainnet: 'deployer' },
+          safeAddress: '0xsafe',
+          outputFile: 'tx.cbor'
+        },
+        'linux'
+      )
+
+      const steps = (id: string) => plan.steps.filter((s) => s.id === id)
+      expect(steps('network').map((s) => [s.deployment, s.args])).toEqual([
+        ['testnet', ['network', 'set-default', 'testnet']],
+        ['mainnet', ['network', 'set-default', 'mainnet']]
+      ])
+      expect(steps('safe-propose').map((s) => s.network)).toEqual([
+        'testnet',
+        'mainnet'
+      ])
+      expect(steps('update').map((s) => s.args)).toEqual([
+        expect.arrayContaining(['--account', 'tester']),
+        expect.arrayContaining(['--account', 'deployer'])
+      ])
+    })
+
+    it('should install nothing with safe_export', () => {
+      const plan = buildPlan(
+        {
+          ...defaultInputs,
+          safeAddress: '0xsafe',
+          safeExport: true,
+          outputFile: 'tx.cbor'
+        },
+        'linux'
+      )
+
+      const step = (id: string) => plan.steps.find((s) => s.id === id)
+      expect(step('safe-deps')?.skipped).toBe(
+        'safe_export uses the bundled Oasis SDK'
+      )
+      expect(step('safe-propose')?.args.slice(0, 2)).toEqual([
+        'export',
+        '0xsafe'
+      ])
+    })
+
+    it('should only run the upgrade when checking for updates', () => {
+      const plan = buildPlan(
+        { ...defaultInputs, checkUpdates: true, deployment: 'testnet' },
+        'linux'
+      )
+
+      expect(plan.steps).toEqual([
+        {
+          id: 'upgrade',
+          command: 'oasis',
+          args: ['rofl', 'upgrade', '--deployment', 'testnet']
+        }
+      ])
+    })
+
+    it('should upgrade and build each app of a manifest glob', () => {
+      const plan = buildPlan(
+        { ...defaultInputs, checkUpdates: true, validateUpdate: true },
+        'linux',
+        ['apps/a', 'apps/b']
+      )
+
+      expect(
+        plan.steps.map((step) => [step.id, step.app, stepTitle(step)])
+      ).toEqual([
+        ['upgrade', 'apps/a', 'ROFL upgrade (apps/a)'],
+        ['upgrade', 'apps/b', 'ROFL upgrade (apps/b)'],
+        ['build-deps', undefined, 'build dependencies'],
+        ['build', 'apps/a', 'ROFL build (apps/a)'],
+        ['build', 'apps/b', 'ROFL build (apps/b)']
+      ])
+    })
+
+    it('should build each deployment after the upgrade when validating', () => {
+      const plan = buildPlan(
+        {
+          ...defaultInputs,
+          checkUpdates: true,
+          validateUpdate: true,
+          verify: true,
+          deployments: ['testnet', 'mainnet']
+        },
+        'linux'
+      )
+
+      expect(plan.steps.map((step) => step.id)).toEqual([
+        'upgrade',
+        'build-deps',
+        'build',
+        'build'
+      ])
+      const builds = plan.steps.filter((step) => step.id === 'build')
+      expect(builds.map((step) => step.deployment)).toEqual([
+        'testnet',
+        'mainnet'
+      ])
+      // Manifest updates are allowed so the new enclave IDs are recorded
+      expect(builds[0].args).toEqual([
+        'rofl',
+        'build',
+        '--deployment',
+        'testnet'
+      ])
+    })
+  })
+
+  describe('planToJSON', () => {
+    it('should redact the wallet secret', () => {
+      const plan = buildPlan(
+        {
+          ...defaultInputs,
+          walletImport: true,
+          walletSecret: 'word word word',
+          walletAlgorithm: 'secp256k1-bip44'
+        },
+        'linux'
+      )
+
+      const json = JSON.stringify(planToJSON(plan))
+      expect(json).not.toContain('word word word')
+      expect(json).toContain(
+        'oasis wallet import test:alice --yes --algorithm secp256k1-bip44 --secret ***'
+      )
+    })
+  })
+
+  describe('helpers', () => {
+    it('should insert the deployment name before the extension', () => {
+      expect(deploymentFile('out/update.cbor', 'testnet')).toBe(
+        'out/update.testnet.cbor'
+      )
+      expect(deploymentFile('bundle', 'mainnet')).toBe('bundle.mainnet')
+      expect(deploymentFile('', 'mainnet')).toBe('')
+    })
+
+    it('should redact only the value after --secret', () => {
+      expect(redactArgs(['--secret', 's3cret', '--yes'])).toEqual([
+        '--secret',
+        '***',
+        '--yes'
+      ])
+    })
+  })
+})
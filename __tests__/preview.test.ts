@@ -0,0 +1,145 @@
+/**
+ * Unit tests for the Safe proposal preview
+ */
+import { jest, describe, it, expect, beforeEach } from '@jest/globals'
+
+const mockWriteFileSync = jest.fn()
+
+jest.unstable_mockModule('fs', () => ({
+  writeFileSync: mockWriteFileSync
+}))
+
+// Import the module after mocking
+const { previewCall, previewFile, previewRows, writePreview } = await import(
+  '../src/preview.js'
+)
+
+// Stands in for the Oasis SDK: bech32 as prefix:hex, CBOR as JSON
+const codec = {
+  toBech32: (prefix: string, data: Uint8Array) =>
+    `${prefix}1${Buffer.from(data).toString('hex')}`,
+  fromCBOR: (data: Uint8Array) => JSON.parse(Buffer.from(data).toString())
+}
+
+const bytes = (...values: number[]) => new Uint8Array(values)
+
+describe('preview module', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('previewCall', () => {
+    it('should decode a rofl.Update call without secret values', () => {
+      const preview = previewCall(
+        {
+          method: 'rofl.Update',
+          body: {
+            id: bytes(0xaa),
+            admin: bytes(0xbb),
+            policy: {
+              quotes: { pcs: { tcb_validity_period: 30 } },
+              enclaves: [
+                { mr_enclave: bytes(1, 2), mr_signer: bytes(3) },
+                { mr_enclave: bytes(4), mr_signer: bytes(5) }
+              ],
+              endorsements: [{ node: bytes(0xcc) }],
+              fees: 2,
+              max_expiration: 3
+            },
+            secrets: { TOKEN: bytes(9, 9), API_KEY: bytes(8) }
+          }
+        },
+        'update.cbor',
+        codec
+      )
+
+      expect(preview).toEqual({
+        file: 'update.cbor',
+        method: 'rofl.Update',
+        app_id: 'rofl1aa',
+        admin: 'oasis1bb',
+        enclave_ids: ['AQID', 'BAU='],
+        policy: {
+          quotes: { pcs: { tcb_validity_period: 30 } },
+          endorsements: [{ node: 'cc' }],
+          fees: 'endorsing_node',
+          max_expiration: 3
+        },
+        secrets: ['API_KEY', 'TOKEN']
+      })
+      expect(JSON.stringify(preview)).not.toContain('0909')
+    })
+
+    it('should show a removed admin', () => {
+      expect(
+        previewCall(
+          { method: 'rofl.Update', body: { id: bytes(1), admin: null } },
+          'update.cbor',
+          codec
+        ).admin
+      ).toBeNull()
+    })
+
+    it('should decode the machine and commands of a roflmarket call', () => {
+      const cmd = { method: 'Deploy', args: { secrets: { KEY: 'v' } } }
+
+      const preview = previewCall(
+        {
+          method: 'roflmarket.InstanceExecuteCmds',
+          body: {
+            provider: bytes(0xdd),
+            id: bytes(0, 1),
+            cmds: [new Uint8Array(Buffer.from(JSON.stringify(cmd)))]
+          }
+        },
+        'deploy.cbor',
+        codec
+      )
+
+      expect(preview).toEqual({
+        file: 'deploy.cbor',
+        method: 'roflmarket.InstanceExecuteCmds',
+        provider: 'oasis1dd',
+        machine: '0001',
+        commands: [{ method: 'Deploy', args: { secrets: ['KEY'] } }]
+      })
+    })
+
+    it('should name the rental term', () => {
+      const preview = previewCall(
+        {
+          method: 'roflmarket.InstanceCreate',
+          body: { offer: bytes(7), term: 2, term_count: 3n }
+        },
+        'deploy.cbor',
+        codec
+      )
+
+      expect(previewRows(preview)).toEqual(
+        expect.arrayContaining([
+          ['Offer', '07'],
+          ['Term', '3 months']
+        ])
+      )
+    })
+  })
+
+  describe('writePreview', () => {
+    it('should write the preview next to the first transaction file', () => {
+      const file = writePreview({
+        network: 'testnet',
+        safe_address: '0xsafe',
+        calls: [{ file: 'update.cbor', method: 'rofl.Update' }]
+      })
+
+      expect(file).toBe(previewFile('update.cbor'))
+      expect(file).toBe('update.cbor.preview.json')
+      const [, content] = mockWriteFileSync.mock.calls[0] as [string, string]
+      expect(JSON.parse(content)).toEqual({
+        network: 'testnet',
+        safe_address: '0xsafe',
+        calls: [{ file: 'update.cbor', method: 'rofl.Update' }]
+      })
+    })
+  })
+})
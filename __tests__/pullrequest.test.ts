@@ -0,0 +1,429 @@
+/**
+ * Unit tests for update pull requests
+ */
+import { jest, describe, it, expect, beforeEach } from '@jest/globals'
+import type { ExecOptions } from '@actions/exec'
+
+const mockExec =
+  jest.fn<
+    (command: string, args?: string[], options?: ExecOptions) => Promise<number>
+  >()
+const mockInfo = jest.fn()
+const mockWarning = jest.fn()
+
+jest.unstable_mockModule('@actions/core', () => ({
+  info: mockInfo,
+  warning: mockWarning
+}))
+
+jest.unstable_mockModule('@actions/exec', () => ({
+  exec: mockExec
+}))
+
+// Import the module after mocking
+const {
+  appBranchPrefix,
+  commitUpdate,
+  compareWithBranch,
+  createUpdatePr,
+  findUpdatePr,
+  isUpdateBranch,
+  refreshUpdatePr,
+  reportUpdateFailure,
+  updateBranch
+} = await import('../src/pullrequest.js')
+
+const SETTINGS = {
+  branchPrefix: 'rofl-update-',
+  base: '',
+  title: 'chore: update ROFL artifacts to latest versions',
+  labels: [],
+  reviewers: [],
+  assignees: [],
+  draft: false,
+  author: {
+    name: 'github-actions[bot]',
+    email: 'github-actions[bot]@users.noreply.github.com'
+  }
+}
+
+/**
+ * Mock exec to print the given stdout for commands starting with the given
+ * arguments, and print nothing otherwise
+ */
+function mockStdout(outputs: Record<string, string>, exitCode = 0): void {
+  mockExec.mockImplementation(async (command, args, options) => {
+    const key = [command, ...(args ?? [])].join(' ')
+    const match = Object.keys(outputs).find((prefix) => key.startsWith(prefix))
+    if (match) {
+      options?.listeners?.stdout?.(Buffer.from(outputs[match]))
+    }
+    return exitCode
+  })
+}
+
+function argsOf(command: string, subcommand: string): string[] | undefined {
+  return mockExec.mock.calls.find(
+    (c) => c[0] === command && c[1]?.includes(subcommand)
+  )?.[1]
+}
+
+describe('pullrequest module', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockExec.mockResolvedValue(0)
+  })
+
+  describe('updateBranch', () => {
+    it('should append the date to the prefix', () => {
+      expect(updateBranch('deps/rofl-', new Date('2025-01-31T12:00:00Z'))).toBe(
+        'deps/rofl-2025-01-31'
+      )
+    })
+  })
+
+  describe('appBranchPrefix', () => {
+    it('should add the app directory as a branch-safe slug', () => {
+      expect(appBranchPrefix('rofl-update-', 'apps/My Oracle')).toBe(
+        'rofl-update-apps-my-oracle-'
+      )
+    })
+
+    it('should name the working directory root', () => {
+      expect(appBranchPrefix('rofl-update-', '.')).toBe('rofl-update-root-')
+    })
+  })
+
+  describe('isUpdateBranch', () => {
+    it('should match the prefix followed by a date', () => {
+      expect(isUpdateBranch('rofl-update-', 'rofl-update-2025-01-31')).toBe(
+        true
+      )
+      expect(isUpdateBranch('rofl-update-', 'rofl-update-fix')).toBe(false)
+    })
+
+    it('should not match the branches of other apps', () => {
+      const foo = appBranchPrefix('rofl-update-', 'apps/foo')
+      const fooBar = appBranchPrefix('rofl-update-', 'apps/foo-bar')
+
+      expect(isUpdateBranch(foo, `${foo}2025-01-31`)).toBe(true)
+      expect(isUpdateBranch(foo, `${fooBar}2025-01-31`)).toBe(false)
+      expect(isUpdateBranch('rofl-update-', `${foo}2025-01-31`)).toBe(false)
+    })
+  })
+
+  describe('findUpdatePr', () => {
+    it('should find open PRs by the branch prefix', async () => {
+      mockStdout({
+        'gh pr list': JSON.stringify([
+          { url: 'https://github.com/o/r/pull/1', headRefName: 'feature' },
+          {
+            number: 2,
+            url: 'https://github.com/o/r/pull/2',
+            headRefName: 'rofl-update-2025-01-01'
+          }
+        ])
+      })
+
+      await expect(findUpdatePr(SETTINGS)).resolves.toEqual({
+        url: 'https://github.com/o/r/pull/2',
+        branch: 'rofl-update-2025-01-01',
+        number: 2
+      })
+    })
+
+    it('should skip the PRs of apps sharing the prefix', async () => {
+      mockStdout({
+        'gh pr list': JSON.stringify([
+          {
+            number: 1,
+            url: 'https://github.com/o/r/pull/1',
+            headRefName: 'rofl-update-apps-foo-bar-2025-01-01'
+          },
+          {
+            number: 2,
+            url: 'https://github.com/o/r/pull/2',
+            headRefName: 'rofl-update-apps-foo-2025-01-01'
+          }
+        ])
+      })
+
+      await expect(
+        findUpdatePr({ ...SETTINGS, branchPrefix: 'rofl-update-apps-foo-' })
+      ).resolves.toEqual(expect.objectContaining({ number: 2 }))
+      await expect(findUpdatePr(SETTINGS)).resolves.toBeUndefined()
+    })
+
+    it('should list more than the first 30 open PRs', async () => {
+      await findUpdatePr(SETTINGS)
+
+      expect(argsOf('gh', 'list')).toEqual(
+        expect.arrayContaining(['--limit', '1000'])
+      )
+    })
+
+    it('should filter by the base branch', async () => {
+      await findUpdatePr({ ...SETTINGS, base: 'develop' })
+
+      expect(argsOf('gh', 'list')).toEqual(
+        expect.arrayContaining(['--base', 'develop'])
+      )
+    })
+
+    it('should return nothing when no PR matches', async () => {
+      mockStdout({ 'gh pr list': '[]' })
+
+      await expect(findUpdatePr(SETTINGS)).resolves.toBeUndefined()
+    })
+
+    it('should warn and return nothing when listing fails', async () => {
+      mockStdout({}, 1)
+
+      await expect(findUpdatePr(SETTINGS)).resolves.toBeUndefined()
+      expect(mockWarning).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to list open pull requests')
+      )
+    })
+  })
+
+  describe('compareWithBranch', () => {
+    it('should read the manifest on the branch', async () => {
+      mockStdout({
+        'git show FETCH_HEAD:./rofl.yaml': 'artifacts:\n  kernel: k#1\n'
+      })
+      mockExec.mockImplementationOnce(async () => 0) // fetch
+      mockExec.mockImplementationOnce(async () => 1) // diff
+
+      await expect(
+        compareWithBranch('rofl-update-2025-01-01', ['rofl.yaml'])
+      ).resolves.toEqual({
+        changed: true,
+        manifest: { artifacts: { kernel: 'k#1' } }
+      })
+      expect(mockExec).toHaveBeenCalledWith(
+        'git',
+        ['diff', '--quiet', 'FETCH_HEAD', '--', 'rofl.yaml'],
+        { ignoreReturnCode: true }
+      )
+    })
+
+    it('should report an up-to-date branch', async () => {
+      const state = await compareWithBranch('rofl-update-2025-01-01', [
+        'rofl.yaml'
+      ])
+
+      expect(state?.changed).toBe(false)
+    })
+
+    it('should return nothing when the branch cannot be fetched', async () => {
+      mockExec.mockResolvedValue(128)
+
+      await expect(
+        compareWithBranch('rofl-update-2025-01-01', ['rofl.yaml'])
+      ).resolves.toBeUndefined()
+      expect(mockWarning).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to fetch rofl-update-2025-01-01')
+      )
+    })
+
+    it('should warn when the manifest on the branch is invalid', async () => {
+      mockStdout({ 'git show': '- not a mapping' })
+
+      const state = await compareWithBranch('rofl-update-2025-01-01', [
+        'rofl.yaml'
+      ])
+
+      expect(state?.manifest).toBeUndefined()
+      expect(mockWarning).toHaveBeenCalledWith(
+        expect.stringContaining('expected a YAML mapping')
+      )
+    })
+  })
+
+  describe('commitUpdate', () => {
+    it('should commit as the configured author with the title', async () => {
+      await commitUpdate(
+        {
+          ...SETTINGS,
+          title: 'build(deps): bump ROFL artifacts',
+          author: { name: 'ROFL Bot', email: 'bot@example.com' }
+        },
+        'rofl-update-2025-01-31',
+        ['rofl.yaml']
+      )
+
+      expect(mockExec).toHaveBeenCalledWith('git', [
+        'config',
+        'user.name',
+        'ROFL Bot'
+      ])
+      expect(mockExec).toHaveBeenCalledWith('git', [
+        'config',
+        'user.email',
+        'bot@example.com'
+      ])
+      expect(argsOf('git', 'commit')?.[2]).toMatch(
+        /^build\(deps\): bump ROFL artifacts\n\n/
+      )
+      expect(argsOf('git', 'push')).toEqual([
+        'push',
+        '-u',
+        'origin',
+        'rofl-update-2025-01-31'
+      ])
+    })
+
+    it('should return to the starting checkout after pushing', async () => {
+      await commitUpdate(SETTINGS, 'rofl-update-2025-01-31', ['rofl.yaml'])
+
+      const git = mockExec.mock.calls
+        .filter((c) => c[0] === 'git')
+        .map((c) => c[1]?.slice(0, 2))
+      expect(git.slice(-2)).toEqual([
+        ['push', '-u'],
+        ['checkout', '-']
+      ])
+    })
+
+    it('should force push when the remote branch exists', async () => {
+      mockStdout({ 'git ls-remote': 'abc\trefs/heads/rofl-update-2025-01-31' })
+
+      await commitUpdate(SETTINGS, 'rofl-update-2025-01-31', ['rofl.yaml'])
+
+      expect(argsOf('git', 'push')).toContain('--force')
+    })
+  })
+
+  describe('createUpdatePr', () => {
+    it('should pass the base, labels, reviewers, assignees and draft', async () => {
+      mockStdout({ 'gh pr create': 'https://github.com/o/r/pull/3\n' })
+
+      const url = await createUpdatePr(
+        {
+          ...SETTINGS,
+          base: 'develop',
+          labels: ['deps'],
+          reviewers: ['acme/platform', 'alice'],
+          assignees: ['bob'],
+          draft: true
+        },
+        'rofl-update-2025-01-31',
+        'body'
+      )
+
+      expect(url).toBe('https://github.com/o/r/pull/3')
+      expect(argsOf('gh', 'create')).toEqual([
+        'pr',
+        'create',
+        '--head',
+        'rofl-update-2025-01-31',
+        '--title',
+        'chore: update ROFL artifacts to latest versions',
+        '--body',
+        'body',
+        '--base',
+        'develop',
+        '--label',
+        'deps',
+        '--reviewer',
+        'acme/platform',
+        '--reviewer',
+        'alice',
+        '--assignee',
+        'bob',
+        '--draft'
+      ])
+    })
+
+    it('should leave out the optional flags by default', async () => {
+      await createUpdatePr(SETTINGS, 'rofl-update-2025-01-31', 'body')
+
+      expect(argsOf('gh', 'create')).toHaveLength(8)
+    })
+  })
+
+  describe('refreshUpdatePr', () => {
+    it('should update the body and comment on the PR', async () => {
+      const pr = {
+        url: 'https://github.com/o/r/pull/7',
+        branch: 'rofl-update-2025-01-01'
+      }
+
+      await refreshUpdatePr(pr, 'new body', 'refreshed')
+
+      expect(mockExec).toHaveBeenCalledWith('gh', [
+        'pr',
+        'edit',
+        pr.url,
+        '--body',
+        'new body'
+      ])
+      expect(mockExec).toHaveBeenCalledWith('gh', [
+        'pr',
+        'comment',
+        pr.url,
+        '--body',
+        'refreshed'
+      ])
+    })
+  })
+
+  describe('reportUpdateFailure', () => {
+    it('should open an issue with the labels and assignees', async () => {
+      mockStdout({
+        'gh issue list': '[]',
+        'gh issue create': 'https://github.com/o/r/issues/9\n'
+      })
+
+      const url = await reportUpdateFailure(
+        { ...SETTINGS, labels: ['deps'], assignees: ['bob'] },
+        'Build failed',
+        'log'
+      )
+
+      expect(url).toBe('https://github.com/o/r/issues/9')
+      expect(argsOf('gh', 'create')).toEqual([
+        'issue',
+        'create',
+        '--title',
+        'Build failed',
+        '--body',
+        'log',
+        '--label',
+        'deps',
+        '--assignee',
+        'bob'
+      ])
+    })
+
+    it('should comment on an open issue with the same title', async () => {
+      mockStdout({
+        'gh issue list': JSON.stringify([
+          { title: 'Build failed', url: 'https://github.com/o/r/issues/4' }
+        ])
+      })
+
+      const url = await reportUpdateFailure(SETTINGS, 'Build failed', 'log')
+
+      expect(url).toBe('https://github.com/o/r/issues/4')
+      expect(mockExec).toHaveBeenCalledWith('gh', [
+        'issue',
+        'comment',
+        'https://github.com/o/r/issues/4',
+        '--body',
+        'log'
+      ])
+      expect(argsOf('gh', 'create')).toBeUndefined()
+    })
+
+    it('should list more than the first 30 open issues', async () => {
+      mockStdout({ 'gh issue list': '[]' })
+
+      await reportUpdateFailure(SETTINGS, 'Build failed', 'log')
+
+      expect(argsOf('gh', 'list')).toEqual(
+        expect.arrayContaining(['--limit', '1000'])
+      )
+    })
+  })
+})
@@ -15,9 +15,14 @@ jest.unstable_mockModule('@actions/core', () => ({
 }))
 
 // Mock fs module for file operations
+const mockExistsSync = jest.fn()
+const mockReadFileSync = jest.fn()
+const mockWriteFileSync = jest.fn()
+
 jest.unstable_mockModule('fs', () => ({
-  existsSync: jest.fn(),
-  readFileSync: jest.fn()
+  existsSync: mockExistsSync,
+  readFileSync: mockReadFileSync,
+  writeFileSync: mockWriteFileSync
 }))
 
 // Mock module for createRequire
@@ -32,8 +37,38 @@ jest.unstable_mockModule('module', () => ({
   })
 }))
 
+// Stands in for the bundled Oasis SDK: transaction files hold the call as JSON
+const mockFromHex = jest.fn((hex: string) => hex)
+const mockWrapper = jest.fn(function () {
+  return {
+    callUpdate: () => ({
+      setBody: () => ({
+        toSubcall: () => ({ to: '0x0100', data: '0xdata' })
+      })
+    })
+  }
+})
+
+jest.unstable_mockModule('@oasisprotocol/client', () => ({
+  misc: {
+    fromHex: mockFromHex,
+    fromCBOR: (data: Uint8Array) => JSON.parse(data.toString())
+  },
+  address: { toBech32: (prefix: string) => `${prefix}1app` }
+}))
+
+jest.unstable_mockModule('@oasisprotocol/client-rt', () => ({
+  rofl: { Wrapper: mockWrapper },
+  roflmarket: { Wrapper: mockWrapper }
+}))
+
 // Import after mocking
-const { runSafeProposal } = await import('../src/safe.js')
+const { runSafeProposal, safeTransactionUrl, toSubcall, transactionBatch } =
+  await import('../src/safe.js')
+const { DEFAULT_NETWORKS } = await import('../src/networks.js')
+
+const LOCALNET_ID =
+  '8000000000000000000000000000000000000000000000000000000000000000'
 
 describe('safe module', () => {
   beforeEach(() => {
@@ -171,6 +206,272 @@ describe('NETWORKS configuration', () => {
       runSafeProposal(validInputs, { updateFile: 'update.cbor' }, 'localnet')
     ).rejects.toThrow('Unknown network: localnet')
   })
+
+  it('should support localnet from the network registry', async () => {
+    // Stand-ins for the Safe SDK, recording what it is given
+    const mockApiKit = jest.fn(function () {
+      return { getNextNonce: async () => 0 }
+    })
+    const mockSafeInit = jest.fn(async () => ({
+      createTransaction: async () => ({ data: {} }),
+      getTransactionHash: async () => '0xtxhash',
+      signHash: async () => ({ signer: '0xsigner', data: '0xsig' })
+    }))
+    Object.assign(mockLoadedModules, {
+      xhr2: {},
+      '@safe-global/protocol-kit': { init: mockSafeInit },
+      '@safe-global/api-kit': mockApiKit,
+      '@safe-global/types-kit': { OperationType: { Call: 0 } }
+    })
+    mockExistsSync.mockReturnValue(true)
+    mockReadFileSync.mockReturnValue(
+      Buffer.from(JSON.stringify({ call: { method: 'rofl.Update', body: {} } }))
+    )
+
+    try {
+      await expect(
+        runSafeProposal(
+          {
+            ...validInputs,
+            dryRun: true,
+            networks: {
+              ...DEFAULT_NETWORKS,
+              localnet: {
+                runtimeId: LOCALNET_ID,
+                chainId: 23293n,
+                web3Api: 'http://localhost:8545',
+                safeApi: 'http://localhost:8000/api'
+              }
+            }
+          },
+          { updateFile: 'update.cbor' },
+          'localnet',
+          '/workspace'
+        )
+      ).resolves.toMatchObject({ safeTxHash: '0xtxhash' })
+    } finally {
+      for (const name of Object.keys(mockLoadedModules)) {
+        delete mockLoadedModules[name]
+      }
+    }
+
+    expect(mockFromHex).toHaveBeenCalledWith(LOCALNET_ID)
+    expect(mockWrapper).toHaveBeenCalledWith(LOCALNET_ID)
+    expect(mockApiKit).toHaveBeenCalledWith({
+      chainId: 23293n,
+      txServiceUrl: 'http://localhost:8000/api'
+    })
+    expect(mockSafeInit).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: 'http://localhost:8545' })
+    )
+  })
+
+  it('should require the Safe endpoints of registry networks', async () => {
+    await expect(
+      runSafeProposal(
+        { ...validInputs, networks: { localnet: { runtimeId: LOCALNET_ID } } },
+        { updateFile: 'update.cbor' },
+        'localnet'
+      )
+    ).rejects.toThrow(
+      'Network localnet has no web3 (or safe_rpc_url), safe_service (or safe_service_url), chain_id (or safe_chain_id)'
+    )
+  })
+})
+
+describe('safeTransactionUrl', () => {
+  it('should link to the transaction in the Safe web UI', () => {
+    expect(safeTransactionUrl('testnet', '0xabc', '0x123')).toBe(
+      'https://safe.oasis.io/transactions/tx?safe=sapphire-testnet:0xabc&id=multisig_0xabc_0x123'
+    )
+  })
+
+  it('should not link for unknown networks', () => {
+    expect(safeTransactionUrl('localnet', '0xabc', '0x123')).toBeUndefined()
+  })
+
+  it('should link with the Safe UI of a registry network', () => {
+    expect(
+      safeTransactionUrl('localnet', '0xabc', '0x123', {
+        localnet: {
+          runtimeId: LOCALNET_ID,
+          safeUi: 'http://localhost:3000',
+          shortName: 'sapphire-localnet'
+        }
+      })
+    ).toBe(
+      'http://localhost:3000/transactions/tx?safe=sapphire-localnet:0xabc&id=multisig_0xabc_0x123'
+    )
+  })
+})
+
+describe('toSubcall', () => {
+  // Stands in for the Oasis SDK wrappers: each call builder returns its name
+  const fakeWrapper = () =>
+    new Proxy(
+      {},
+      {
+        get: (_target, call: string) => () => ({
+          setBody: (body: unknown) => ({
+            toSubcall: () => ({ to: call, data: JSON.stringify(body) })
+          })
+        })
+      }
+    )
+  const wrappers = { rofl: fakeWrapper(), roflmarket: fakeWrapper() }
+
+  it.each([
+    ['rofl.Create', 'callCreate'],
+    ['rofl.Update', 'callUpdate'],
+    ['rofl.Remove', 'callRemove'],
+    ['roflmarket.InstanceCreate', 'callInstanceCreate'],
+    ['roflmarket.InstanceTopUp', 'callInstanceTopUp'],
+    ['roflmarket.InstanceCancel', 'callInstanceCancel'],
+    ['roflmarket.InstanceExecuteCmds', 'callInstanceExecuteCmds']
+  ])('should build %s with %s', (method, call) => {
+    expect(toSubcall({ method, body: { id: 1 } }, wrappers, 'tx.cbor')).toEqual(
+      { to: call, data: '{"id":1}', value: '0' }
+    )
+  })
+
+  it('should reject unknown methods', () => {
+    expect(() =>
+      toSubcall({ method: 'accounts.Transfer' }, wrappers, 'tx.cbor')
+    ).toThrow(
+      'Unsupported transaction method in tx.cbor: accounts.Transfer. ' +
+        'Supported methods: rofl.Create, rofl.Update, rofl.Remove'
+    )
+  })
+
+  it('should reject transactions without a method', () => {
+    expect(() => toSubcall(undefined, wrappers, 'tx.cbor')).toThrow(
+      'Unsupported transaction method in tx.cbor: none.'
+    )
+  })
+})
+
+describe('Transaction Builder export', () => {
+  const exportInputs = {
+    safePropose: true,
+    safeAddress: '0xsafe',
+    safeProposerKey: '',
+    safeRpcUrl: '',
+    safeServiceUrl: '',
+    safeChainId: '',
+    grpcUrl: '',
+    deployment: 'testnet',
+    dryRun: false,
+    export: true
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should write a batch without a proposer key or installed SDKs', async () => {
+    mockExistsSync.mockReturnValue(true)
+    mockReadFileSync.mockReturnValue(
+      Buffer.from(JSON.stringify({ call: { method: 'rofl.Update', body: {} } }))
+    )
+
+    // No SDK is installed: loading one at runtime would throw
+    const result = await runSafeProposal(
+      exportInputs,
+      { updateFile: 'update.cbor' },
+      'testnet'
+    )
+
+    expect(result).toEqual({
+      batchFile: 'update.cbor.safe-batch.json',
+      previews: [{ file: 'update.cbor', method: 'rofl.Update' }],
+      previewFile: 'update.cbor.preview.json'
+    })
+    const [file, content] = mockWriteFileSync.mock.calls[1] as [string, string]
+    expect(file).toBe('update.cbor.safe-batch.json')
+    expect(JSON.parse(content)).toMatchObject({
+      chainId: '23295',
+      meta: { name: 'ROFL testnet', createdFromSafeAddress: '0xsafe' },
+      transactions: [
+        {
+          to: '0x0100',
+          value: '0',
+          data: '0xdata',
+          description: 'rofl.Update (update.cbor)'
+        }
+      ]
+    })
+  })
+
+  it('should require a chain ID', async () => {
+    await expect(
+      runSafeProposal(
+        { ...exportInputs, networks: { localnet: { runtimeId: LOCALNET_ID } } },
+        { updateFile: 'update.cbor' },
+        'localnet'
+      )
+    ).rejects.toThrow(
+      'Network localnet has no chain_id (or safe_chain_id). Set it in safe_networks_file or with the Safe input.'
+    )
+  })
+
+  it('should describe each operation', () => {
+    const batch = transactionBatch(
+      23294n,
+      '0xsafe',
+      'ROFL mainnet',
+      [
+        {
+          to: '0x01',
+          data: '0xaa',
+          value: '0',
+          preview: {
+            file: 'update.cbor',
+            method: 'rofl.Update',
+            app_id: 'rofl1x'
+          }
+        },
+        {
+          to: '0x02',
+          data: '0xbb',
+          value: '0',
+          preview: {
+            file: 'deploy.cbor',
+            method: 'roflmarket.InstanceExecuteCmds',
+            machine: '0001'
+          }
+        }
+      ],
+      1700000000000
+    )
+
+    expect(batch).toEqual({
+      version: '1.0',
+      chainId: '23294',
+      createdAt: 1700000000000,
+      meta: {
+        name: 'ROFL mainnet',
+        description:
+          'rofl.Update of rofl1x (update.cbor)\n' +
+          'roflmarket.InstanceExecuteCmds of machine 0001 (deploy.cbor)',
+        createdFromSafeAddress: '0xsafe'
+      },
+      transactions: [
+        {
+          to: '0x01',
+          value: '0',
+          data: '0xaa',
+          description: 'rofl.Update of rofl1x (update.cbor)'
+        },
+        {
+          to: '0x02',
+          value: '0',
+          data: '0xbb',
+          description:
+            'roflmarket.InstanceExecuteCmds of machine 0001 (deploy.cbor)'
+        }
+      ]
+    })
+  })
 })
 
 describe('SafeInputs interface', () => {
@@ -0,0 +1,218 @@
+/**
+ * Unit tests for the job summary report
+ */
+import { jest, describe, it, expect, beforeEach } from '@jest/globals'
+
+const mockSummary = {
+  addHeading: jest.fn(() => mockSummary),
+  addTable: jest.fn(() => mockSummary),
+  write: jest.fn(async () => mockSummary)
+}
+
+jest.unstable_mockModule('@actions/core', () => ({
+  summary: mockSummary
+}))
+
+jest.unstable_mockModule('../src/safe.js', () => ({
+  safeTransactionUrl: (network: string, address: string, hash: string) =>
+    `https://safe.example/${network}/${address}/${hash}`
+}))
+
+// Import the module after mocking
+const {
+  createReport,
+  describeCLIVersion,
+  formatDuration,
+  recordStep,
+  skipSteps,
+  writeRunSummary
+} = await import('../src/summary.js')
+
+const BUILD = {
+  id: 'build' as const,
+  deployment: 'testnet',
+  command: 'oasis',
+  args: ['rofl', 'build']
+}
+const UPDATE = {
+  id: 'update' as const,
+  deployment: 'testnet',
+  command: 'oasis',
+  args: ['rofl', 'update'],
+  skipped: 'skip_update is set'
+}
+
+describe('summary module', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('skipSteps', () => {
+    it('should mark the steps as skipped with the reason', () => {
+      const report = createReport([BUILD], 'testnet', ['testnet'])
+
+      skipSteps(report.steps, 'no updates available')
+
+      expect(report.steps[0].status).toBe('skipped')
+      expect(report.steps[0].step.skipped).toBe('no updates available')
+      expect(BUILD).not.toHaveProperty('skipped')
+    })
+  })
+
+  describe('recordStep', () => {
+    it('should record steps that ran with their duration', async () => {
+      const report = createReport([BUILD, UPDATE], 'testnet', ['testnet'])
+
+      await recordStep(report.steps[0], async () => {})
+      await recordStep(report.steps[1], async () => {})
+
+      expect(report.steps[0].status).toBe('ran')
+      expect(report.steps[0].durationMs).toEqual(expect.any(Number))
+      expect(report.steps[1].status).toBe('skipped')
+      expect(report.steps[1].durationMs).toBeUndefined()
+    })
+
+    it('should record failed steps and rethrow', async () => {
+      const report = createReport([BUILD], 'testnet', ['testnet'])
+
+      await expect(
+        recordStep(report.steps[0], async () => {
+          throw new Error('build failed')
+        })
+      ).rejects.toThrow('build failed')
+      expect(report.steps[0].status).toBe('failed')
+    })
+  })
+
+  it('should describe where the CLI version came from', () => {
+    expect(
+      describeCLIVersion({
+        path: '/cli',
+        version: '0.18.3',
+        source: 'auto',
+        requested: '^0.18'
+      })
+    ).toBe('0.18.3 (auto, tooling.version ^0.18 in rofl.yaml)')
+    expect(
+      describeCLIVersion({ path: '/cli', version: '0.19.0', source: 'latest' })
+    ).toBe('0.19.0 (latest release)')
+    expect(
+      describeCLIVersion({
+        path: '/cli',
+        version: '0.18.1',
+        source: 'pinned',
+        requested: '0.18.1'
+      })
+    ).toBe('0.18.1 (pinned, cli_version 0.18.1)')
+  })
+
+  it('should format durations', () => {
+    expect(formatDuration(1234)).toBe('1.2s')
+    expect(formatDuration(125_000)).toBe('2m 05s')
+  })
+
+  describe('writeRunSummary', () => {
+    it('should list steps, artifacts and the Safe transaction link', async () => {
+      const report = createReport(
+        [BUILD, UPDATE],
+        'testnet',
+        ['testnet'],
+        '0xsafe'
+      )
+      report.cli = { path: '/cli', version: '0.19.0', source: 'latest' }
+      report.steps[0].status = 'failed'
+      report.steps[0].durationMs = 65_000
+      report.results.testnet = {
+        build_output: 'app.testnet.orc',
+        update_file: 'update.cbor',
+        safe_tx_hash: '0xhash'
+      }
+
+      await writeRunSummary(report)
+
+      const [overview, steps, artifacts] = mockSummary.addTable.mock
+        .calls as unknown as unknown[][][]
+      expect(overview[0]).toEqual([
+        [{ data: 'Oasis CLI', header: true }, '0.19.0 (latest release)'],
+        [{ data: 'Network', header: true }, '<code>testnet</code>'],
+        [{ data: 'Deployment', header: true }, '<code>testnet</code>']
+      ])
+      expect(steps[0].slice(1)).toEqual([
+        ['ROFL build', 'testnet', 'Failed', '1m 05s'],
+        ['ROFL update', 'testnet', 'Skipped: skip_update is set', '']
+      ])
+      expect(artifacts[0][1]).toEqual([
+        'testnet',
+        '<code>app.testnet.orc</code>',
+        '<code>update.cbor</code>',
+        '',
+        '<a href="https://safe.example/testnet/0xsafe/0xhash"><code>0xhash</code></a>'
+      ])
+      expect(mockSummary.write).toHaveBeenCalled()
+    })
+
+    it('should link each Safe transaction on its deployment network', async () => {
+      const report = createReport(
+        [BUILD],
+        'testnet, mainnet',
+        ['testnet', 'mainnet'],
+        '0xsafe'
+      )
+      report.deploymentNetworks = { testnet: 'testnet', mainnet: 'mainnet' }
+      report.results.testnet = { safe_tx_hash: '0xtest' }
+      report.results.mainnet = { safe_tx_hash: '0xmain' }
+
+      await writeRunSummary(report)
+
+      const artifacts = mockSummary.addTable.mock.calls[2][0] as string[][]
+      expect(artifacts.slice(1).map((row) => row[4])).toEqual([
+        '<a href="https://safe.example/testnet/0xsafe/0xtest"><code>0xtest</code></a>',
+        '<a href="https://safe.example/mainnet/0xsafe/0xmain"><code>0xmain</code></a>'
+      ])
+    })
+
+    it('should add the decoded Safe calls', async () => {
+      const report = createReport([BUILD], 'testnet', ['testnet'], '0xsafe')
+      report.safePreviews.testnet = [
+        {
+          file: 'update.cbor',
+          method: 'rofl.Update',
+          app_id: 'rofl1app',
+          secrets: ['API_KEY'],
+          commands: [{ method: 'Deploy', args: { note: '<b>' } }]
+        }
+      ]
+
+      await writeRunSummary(report)
+
+      expect(mockSummary.addHeading).toHaveBeenCalledWith(
+        'Safe transaction preview: testnet',
+        3
+      )
+      const preview = mockSummary.addTable.mock.calls.at(-1) as unknown as [
+        string[][]
+      ]
+      expect(preview[0].slice(1)).toEqual([
+        ['Method', '<code>rofl.Update</code>'],
+        ['File', '<code>update.cbor</code>'],
+        ['App ID', '<code>rofl1app</code>'],
+        ['Secrets', '<code>API_KEY</code>'],
+        [
+          'Commands',
+          '<code>{"method":"Deploy","args":{"note":"&lt;b&gt;"}}</code>'
+        ]
+      ])
+    })
+
+    it('should leave out artifacts when nothing was produced', async () => {
+      await writeRunSummary(createReport([BUILD], 'mainnet', ['default']))
+
+      expect(mockSummary.addTable).toHaveBeenCalledTimes(2)
+      expect(mockSummary.addTable.mock.calls[0]).toEqual([
+        expect.arrayContaining([
+          [{ data: 'Oasis CLI', header: true }, 'Not installed']
+        ])
+      ])
+    })
+  })
+})
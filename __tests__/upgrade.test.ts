@@ -0,0 +1,259 @@
+/**
+ * Unit tests for the artifact change report
+ */
+import { describe, it, expect } from '@jest/globals'
+import {
+  allChanges,
+  buildFailureBody,
+  diffArtifacts,
+  formatArtifactTable,
+  parseArtifact,
+  refreshComment,
+  tailLog,
+  updatePrBody
+} from '../src/upgrade.js'
+
+const boot = 'https://github.com/oasisprotocol/oasis-boot/releases/download'
+const containers =
+  'https://github.com/oasisprotocol/oasis-sdk/releases/download/rofl-containers%2Fv0.5.2/rofl-containers'
+
+describe('upgrade.ts', () => {
+  describe('parseArtifact', () => {
+    it('should split the URI, digest and version', () => {
+      expect(parseArtifact(`${boot}/v0.5.0/stage1.bin#abcd`)).toEqual({
+        uri: `${boot}/v0.5.0/stage1.bin`,
+        digest: 'abcd',
+        version: '0.5.0'
+      })
+    })
+
+    it('should find versions in URL-encoded tags', () => {
+      expect(parseArtifact(`${containers}#ef01`).version).toBe('0.5.2')
+    })
+
+    it('should leave out a missing digest and version', () => {
+      expect(parseArtifact('compose.yaml')).toEqual({ uri: 'compose.yaml' })
+    })
+  })
+
+  describe('diffArtifacts', () => {
+    it('should list only the changed artifacts', () => {
+      const changes = diffArtifacts(
+        {
+          artifacts: {
+            firmware: `${boot}/v0.4.1/ovmf.tdx.fd#aaaa`,
+            kernel: `${boot}/v0.4.1/stage1.bin#bbbb`,
+            container: { compose: 'compose.yaml' }
+          }
+        },
+        {
+          artifacts: {
+            firmware: `${boot}/v0.4.1/ovmf.tdx.fd#aaaa`,
+            kernel: `${boot}/v0.5.0/stage1.bin#cccc`,
+            container: {
+              runtime: `${containers}#dddd`,
+              compose: 'compose.yaml'
+            }
+          }
+        }
+      )
+
+      expect(changes).toEqual([
+        {
+          artifact: 'kernel',
+          old: {
+            uri: `${boot}/v0.4.1/stage1.bin`,
+            digest: 'bbbb',
+            version: '0.4.1'
+          },
+          new: {
+            uri: `${boot}/v0.5.0/stage1.bin`,
+            digest: 'cccc',
+            version: '0.5.0'
+          }
+        },
+        {
+          artifact: 'container runtime',
+          new: { uri: containers, digest: 'dddd', version: '0.5.2' }
+        }
+      ])
+    })
+
+    it('should return nothing for manifests without artifacts', () => {
+      expect(diffArtifacts({}, {})).toEqual([])
+    })
+  })
+
+  describe('formatArtifactTable', () => {
+    it('should show the old and new version, URI and digest', () => {
+      const table = formatArtifactTable([
+        {
+          artifact: 'stage2',
+          old: { uri: 'a', digest: '0123456789abcdef', version: '0.4.1' },
+          new: { uri: 'b', digest: 'fedcba9876543210' }
+        }
+      ])
+
+      expect(table).toBe(
+        [
+          '| Artifact | Old | New |',
+          '| -------- | --- | --- |',
+          '| stage2 | **0.4.1**<br>`a`<br>sha256 `0123456789ab…` | `b`<br>sha256 `fedcba987654…` |'
+        ].join('\n')
+      )
+    })
+
+    it('should mark added and removed artifacts', () => {
+      expect(
+        formatArtifactTable([{ artifact: 'compose', new: { uri: 'c' } }])
+      ).toContain('| compose | _none_ | `c` |')
+    })
+
+    it('should say when nothing changed', () => {
+      expect(formatArtifactTable([])).toContain('No artifact changes')
+    })
+  })
+
+  describe('updatePrBody', () => {
+    it('should include the table and the generator notes', () => {
+      const body = updatePrBody([
+        {
+          files: ['rofl.yaml'],
+          changes: [{ artifact: 'kernel', new: { uri: 'k' } }]
+        }
+      ])
+
+      expect(body).toContain('## Updated artifacts')
+      expect(body).toContain('| kernel | _none_ | `k` |')
+      expect(body).toContain('Generated by `oasis rofl upgrade`.')
+      expect(body).toContain('🤖 Generated by ROFL GitHub Action')
+    })
+
+    it('should add a section per app', () => {
+      const body = updatePrBody([
+        {
+          app: 'apps/a',
+          files: ['apps/a/rofl.yaml'],
+          changes: [{ artifact: 'kernel', new: { uri: 'k' } }]
+        },
+        {
+          app: 'apps/b',
+          files: ['apps/b/rofl.yaml'],
+          changes: [],
+          enclaveIds: { testnet: ['AAAA'] }
+        }
+      ])
+
+      expect(body).toContain('artifacts of `apps/a`, `apps/b`')
+      expect(body).toContain('### `apps/a`\n\n| Artifact')
+      expect(body).toContain('### `apps/b`\n\n_No artifact changes')
+      expect(body).toContain('- `apps/b` `testnet`: `AAAA`')
+    })
+  })
+
+  describe('refreshComment', () => {
+    it('should list the artifacts changed since the last refresh', () => {
+      const comment = refreshComment([
+        { artifact: 'stage2', new: { uri: 's', version: '0.5.1' } }
+      ])
+
+      expect(comment).toContain('Artifacts changed since the last refresh')
+      expect(comment).toContain('| stage2 | _none_ | **0.5.1**<br>`s` |')
+    })
+
+    it('should say when only other fields changed', () => {
+      expect(refreshComment([])).toContain('No artifacts changed')
+    })
+  })
+
+  describe('updatePrBody with enclave IDs', () => {
+    it('should list the enclave IDs of each deployment', () => {
+      const body = updatePrBody([
+        {
+          files: ['rofl.yaml'],
+          changes: [],
+          enclaveIds: { testnet: ['AAAA', 'BBBB'], mainnet: [] }
+        }
+      ])
+
+      expect(body).toContain('## Enclave IDs')
+      expect(body).toContain('- `testnet`: `AAAA`, `BBBB`')
+      expect(body).toContain('- `mainnet`: _none found_')
+    })
+
+    it('should leave out the section when the upgrade was not built', () => {
+      expect(
+        updatePrBody([{ files: ['rofl.yaml'], changes: [] }])
+      ).not.toContain('Enclave IDs')
+    })
+  })
+
+  describe('tailLog', () => {
+    it('should keep short logs as they are', () => {
+      expect(tailLog('line 1\nline 2\n')).toBe('line 1\nline 2')
+    })
+
+    it('should keep the last lines of long logs', () => {
+      const log = Array.from({ length: 300 }, (_, i) => `line ${i}`).join('\n')
+
+      const tail = tailLog(log)
+
+      expect(tail.startsWith('…\nline 100\n')).toBe(true)
+      expect(tail.endsWith('line 299')).toBe(true)
+    })
+
+    it('should cap the length of long lines', () => {
+      expect(tailLog('x'.repeat(60_000)).length).toBe(50_002)
+    })
+  })
+
+  describe('buildFailureBody', () => {
+    it('should include the deployment, changes, run and log', () => {
+      const body = buildFailureBody(
+        {
+          files: ['rofl.yaml'],
+          changes: [{ artifact: 'kernel', new: { uri: 'k' } }]
+        },
+        'testnet',
+        'Error: build failed',
+        'https://github.com/o/r/actions/runs/1'
+      )
+
+      expect(body).toContain('deployment `testnet` failed to build')
+      expect(body).toContain('| kernel | _none_ | `k` |')
+      expect(body).toContain('Full log: https://github.com/o/r/actions/runs/1')
+      expect(body).toContain('```text\nError: build failed\n```')
+    })
+
+    it('should name the app', () => {
+      const body = buildFailureBody(
+        { app: 'apps/a', files: ['apps/a/rofl.yaml'], changes: [] },
+        'testnet',
+        'Error: build failed'
+      )
+
+      expect(body).toContain('deployment `testnet` of `apps/a` failed to build')
+    })
+  })
+
+  describe('allChanges', () => {
+    it('should tag the changes with their app', () => {
+      expect(
+        allChanges([
+          {
+            app: 'apps/a',
+            files: ['apps/a/rofl.yaml'],
+            changes: [{ artifact: 'kernel' }]
+          },
+          { files: ['rofl.yaml'], changes: [{ artifact: 'stage2' }] }
+        ])
+      ).toEqual([{ app: 'apps/a', artifact: 'kernel' }, { artifact: 'stage2' }])
+    })
+
+    it('should name the app in the table', () => {
+      expect(
+        formatArtifactTable([{ app: 'apps/a', artifact: 'kernel' }])
+      ).toContain('| `apps/a` kernel | _none_ | _none_ |')
+    })
+  })
+})
@@ -1,6 +1,7 @@
 // See: https://rollupjs.org/introduction/
 
 import commonjs from '@rollup/plugin-commonjs'
+import json from '@rollup/plugin-json'
 import nodeResolve from '@rollup/plugin-node-resolve'
 import typescript from '@rollup/plugin-typescript'
 
@@ -12,17 +13,20 @@ const config = {
     format: 'es',
     sourcemap: true
   },
-  plugins: [typescript(), nodeResolve({ preferBuiltins: true }), commonjs()],
-  // Mark SDK packages as external - they'll be loaded at runtime via dynamic import
-  // These are installed at runtime in main.ts when Safe mode is enabled
+  plugins: [
+    typescript(),
+    nodeResolve({ preferBuiltins: true }),
+    commonjs(),
+    json()
+  ],
+  // Mark Safe SDK packages as external - they'll be loaded at runtime via dynamic import
+  // These are installed at runtime in main.ts when Safe mode is enabled. The
+  // Oasis SDK is bundled so safe_export works without installing anything.
   external: [
     // Safe SDK packages
     '@safe-global/protocol-kit',
     '@safe-global/api-kit',
     '@safe-global/types-kit',
-    // Oasis SDK packages for subcall transaction generation
-    '@oasisprotocol/client',
-    '@oasisprotocol/client-rt',
     // Required for Node.js HTTP requests
     'xhr2'
   ]
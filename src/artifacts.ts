@@ -0,0 +1,149 @@
+/**
+ * Build and deploy results
+ *
+ * Discovers what rofl build and rofl deploy produced from their output and
+ * from rofl.yaml, which the CLI updates with enclave IDs and machine details.
+ */
+import * as fs from 'fs'
+import * as crypto from 'crypto'
+import { builtEnclaveIds, expectedEnclaveIds } from './enclaves.js'
+import { RoflManifest } from './manifest.js'
+
+// Printed by rofl build, e.g. "ROFL app built and bundle written to 'app.orc'."
+const BUNDLE_WRITTEN = /bundle written to '([^']+\.orc)'/i
+
+// Machine used by rofl deploy when --machine is not given
+export const DEFAULT_MACHINE = 'default'
+
+// Provenance files are written next to the bundle as <bundle>.provenance.json
+const PROVENANCE_SUFFIX = '.provenance.json'
+
+export interface DeploymentDetails {
+  app_id?: string
+  machine_id?: string
+  provider?: string
+}
+
+export interface WorkflowRun {
+  repository?: string
+  workflow?: string
+  run_id?: string
+  run_attempt?: string
+  url?: string
+}
+
+/**
+ * Record tying a bundle to the source and tooling that produced it
+ */
+export interface BuildProvenance {
+  bundle: string
+  bundle_digest: string
+  deployment: string
+  cli_version: string
+  git_commit?: string
+  manifest: string
+  manifest_digest?: string
+  enclave_ids: string[]
+  builder: 'container' | 'no_container'
+  workflow_run: WorkflowRun
+  created_at: string
+}
+
+/**
+ * Compute the SHA-256 digest of a file
+ * @returns The digest as sha256:<hex>
+ */
+export function fileDigest(file: string): string {
+  const hash = crypto
+    .createHash('sha256')
+    .update(fs.readFileSync(file))
+    .digest('hex')
+  return `sha256:${hash}`
+}
+
+/**
+ * Describe the workflow run from the GitHub Actions environment
+ */
+export function workflowRun(env: NodeJS.ProcessEnv = process.env): WorkflowRun {
+  const url =
+    env.GITHUB_SERVER_URL && env.GITHUB_REPOSITORY && env.GITHUB_RUN_ID
+      ? `${env.GITHUB_SERVER_URL}/${env.GITHUB_REPOSITORY}/actions/runs/${env.GITHUB_RUN_ID}`
+      : undefined
+  return {
+    repository: env.GITHUB_REPOSITORY,
+    workflow: env.GITHUB_WORKFLOW,
+    run_id: env.GITHUB_RUN_ID,
+    run_attempt: env.GITHUB_RUN_ATTEMPT,
+    url
+  }
+}
+
+/**
+ * Get the provenance file path for a bundle
+ */
+export function provenanceFile(bundle: string): string {
+  return `${bundle}${PROVENANCE_SUFFIX}`
+}
+
+/**
+ * Write the provenance of a bundle next to it
+ * @returns The provenance file path
+ */
+export function writeProvenance(provenance: BuildProvenance): string {
+  const file = provenanceFile(provenance.bundle)
+  fs.writeFileSync(file, `${JSON.stringify(provenance, null, 2)}\n`)
+  return file
+}
+
+/**
+ * Find the bundle written by rofl build
+ * @param output - Captured rofl build output
+ * @param manifest - rofl.yaml, for the default <name>.<deployment>.orc name
+ * @returns The bundle path, undefined if it can't be found
+ */
+export function discoverBundle(
+  output: string,
+  manifest: RoflManifest | undefined,
+  deployment: string
+): string | undefined {
+  const match = BUNDLE_WRITTEN.exec(output)
+  if (match) {
+    return match[1]
+  }
+  const fallback = manifest?.name && `${manifest.name}.${deployment}.orc`
+  return fallback && fs.existsSync(fallback) ? fallback : undefined
+}
+
+/**
+ * Get the enclave IDs of a build, from its output or, when the output doesn't
+ * list them, from the deployment policy in rofl.yaml
+ */
+export function buildEnclaveIds(
+  output: string,
+  manifest: RoflManifest | undefined,
+  deployment: string
+): string[] {
+  const built = builtEnclaveIds(output)
+  if (built.length > 0 || !manifest) {
+    return built
+  }
+  return expectedEnclaveIds(manifest, deployment)
+}
+
+/**
+ * Get the app ID and the machine details of a deployment from rofl.yaml
+ * @param machine - Machine name (DEFAULT_MACHINE when not set)
+ */
+export function deploymentDetails(
+  manifest: RoflManifest,
+  deployment: string,
+  machine: string = DEFAULT_MACHINE
+): DeploymentDetails {
+  const config = manifest.deployments?.[deployment]
+  const details = config?.machines?.[machine]
+  return {
+    app_id: config?.app_id || undefined,
+    machine_id: details?.id || undefined,
+    provider: details?.provider || undefined
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * In-toto statements with SLSA provenance for ORC bundles
+ *
+ * The statement is written unsigned; signing and publishing are left to the
+ * workflow's attestation tooling.
+ * https://github.com/in-toto/attestation/blob/main/spec/v1/statement.md
+ * https://slsa.dev/spec/v1.0/provenance
+ */
+import * as fs from 'fs'
+import * as path from 'path'
+import { workflowRun } from './artifacts.js'
+import { InstalledCLI } from './cli.js'
+
+export const STATEMENT_TYPE = 'https://in-toto.io/Statement/v1'
+export const SLSA_PROVENANCE_TYPE = 'https://slsa.dev/provenance/v1'
+
+const ACTION_REPOSITORY = 'oasisprotocol/build-deploy-rofl-action'
+const BUILD_TYPE = `https://github.com/${ACTION_REPOSITORY}/rofl-build/v1`
+
+// Statements are written next to the bundle as <bundle>.intoto.json
+const STATEMENT_SUFFIX = '.intoto.json'
+
+export interface ResourceDescriptor {
+  name?: string
+  uri?: string
+  digest?: Record<string, string>
+}
+
+export interface SlsaProvenance {
+  buildDefinition: {
+    buildType: string
+    externalParameters: Record<string, unknown>
+    internalParameters?: Record<string, unknown>
+    resolvedDependencies: ResourceDescriptor[]
+  }
+  runDetails: {
+    builder: { id: string; version?: Record<string, string> }
+    metadata?: { invocationId?: string; finishedOn?: string }
+  }
+}
+
+export interface Statement {
+  _type: string
+  subject: ResourceDescriptor[]
+  predicateType: string
+  predicate: SlsaProvenance
+}
+
+export interface StatementOptions {
+  bundle: string
+  // Bundle digest as sha256:<hex>
+  bundleDigest: string
+  deployment: string
+  // Action inputs with secrets already redacted
+  inputs: object
+  cli: InstalledCLI
+  env?: NodeJS.ProcessEnv
+}
+
+/**
+ * Get the materials of a build: the git commit and the CLI tarball
+ */
+function resolvedDependencies(
+  cli: InstalledCLI,
+  env: NodeJS.ProcessEnv
+): ResourceDescriptor[] {
+  const dependencies: ResourceDescriptor[] = []
+  if (env.GITHUB_SHA) {
+    const repository =
+      env.GITHUB_SERVER_URL && env.GITHUB_REPOSITORY
+        ? `git+${env.GITHUB_SERVER_URL}/${env.GITHUB_REPOSITORY}`
+        : undefined
+    dependencies.push({
+      uri:
+        repository && env.GITHUB_REF
+          ? `${repository}@${env.GITHUB_REF}`
+          : repository,
+      digest: { gitCommit: env.GITHUB_SHA }
+    })
+  }
+  dependencies.push({
+    name: `oasis-cli@${cli.version}`,
+    uri: cli.tarball,
+    ...(cli.sha256 ? { digest: { sha256: cli.sha256 } } : {})
+  })
+  return dependencies
+}
+
+/**
+ * Build the in-toto statement for a bundle
+ */
+export function buildStatement(options: StatementOptions): Statement {
+  const env = options.env ?? process.env
+  const actionRepository = env.GITHUB_ACTION_REPOSITORY || ACTION_REPOSITORY
+  const actionRef = env.GITHUB_ACTION_REF || 'unknown'
+  const run = workflowRun(env)
+
+  return {
+    _type: STATEMENT_TYPE,
+    subject: [
+      {
+        name: path.basename(options.bundle),
+        digest: { sha256: options.bundleDigest.replace(/^sha256:/, '') }
+      }
+    ],
+    predicateType: SLSA_PROVENANCE_TYPE,
+    predicate: {
+      buildDefinition: {
+        buildType: BUILD_TYPE,
+        externalParameters: {
+          deployment: options.deployment,
+          inputs: options.inputs
+        },
+        internalParameters: {
+          cli_version: options.cli.version,
+          cli_version_source: options.cli.source
+        },
+        resolvedDependencies: resolvedDependencies(options.cli, env)
+      },
+      runDetails: {
+        builder: {
+          id: `https://github.com/${actionRepository}@${actionRef}`,
+          version: { [actionRepository]: actionRef }
+        },
+        metadata: {
+          invocationId:
+            run.url && run.run_attempt
+              ? `${run.url}/attempts/${run.run_attempt}`
+              : run.url,
+          finishedOn: new Date().toISOString()
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Write the statement for a bundle next to it
+ * @returns The statement file path
+ */
+export function writeStatement(bundle: string, statement: Statement): string {
+  const file = `${bundle}${STATEMENT_SUFFIX}`
+  fs.writeFileSync(file, `${JSON.stringify(statement, null, 2)}\n`)
+  return file
+}
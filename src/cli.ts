@@ -1,20 +1,59 @@
 /**
  * Oasis CLI installation utilities
- * Downloads and installs the Oasis CLI from GitHub releases
+ * Downloads and installs the Oasis CLI from GitHub releases, a mirror of the
+ * release layout, or a tarball already on disk
  */
 import * as core from '@actions/core'
 import * as tc from '@actions/tool-cache'
 import * as os from 'os'
 import * as fs from 'fs'
-import * as yaml from 'js-yaml'
+import * as path from 'path'
+import * as crypto from 'crypto'
+import * as semver from 'semver'
+import { MANIFEST_FILES, readManifest } from './manifest.js'
 
 const DEFAULT_CLI_VERSION = 'auto'
 const CLI_REPO = 'oasisprotocol/cli'
+const TOOL_NAME = 'oasis'
+const RELEASES_DOWNLOAD_URL = `https://github.com/${CLI_REPO}/releases/download`
+const RELEASES_PAGE_SIZE = 100
+const RELEASES_MAX_PAGES = 10
+const GITHUB_API_MAX_ATTEMPTS = 4
+// Longest we wait for a rate limit to reset before giving up
+const GITHUB_API_MAX_WAIT_MS = 60_000
+// Written next to the cached CLI so cache hits still know the tarball digest
+const TARBALL_DIGEST_FILE = 'oasis_cli.sha256'
 
-interface RoflManifest {
-  tooling?: {
-    version?: string
-  }
+export interface InstallOptions {
+  // Expected SHA-256 of the CLI tarball. When set, the release checksums file
+  // is not fetched.
+  sha256?: string
+  // Base URL of a mirror with the GitHub release layout (v<VERSION>/<asset>)
+  downloadBaseUrl?: string
+  // Path to an oasis_cli_<VERSION>_<PLATFORM>_<ARCH>.tar.gz already on disk
+  archivePath?: string
+  // Token for GitHub API release lookups (raises the anonymous rate limit)
+  githubToken?: string
+}
+
+// Where the installed version came from: tooling.version in rofl.yaml (auto),
+// the latest release (latest, or auto without tooling.version) or cli_version
+// (pinned, exact or range)
+export type CLIVersionSource = 'auto' | 'latest' | 'pinned'
+
+export interface InstalledCLI {
+  // Directory added to PATH
+  path: string
+  version: string
+  source: CLIVersionSource
+  // Version or range the version was resolved from, unset for the latest
+  // release
+  requested?: string
+  // Where the tarball comes from (download URL or local archive path) and its
+  // verified SHA-256, unset for cache hits installed by older versions of the
+  // action
+  tarball: string
+  sha256?: string
 }
 
 function getPlatform(): string {
@@ -48,23 +87,19 @@ function getArchitecture(): string {
  * @returns The version string if found, null otherwise
  */
 function getVersionFromRoflYaml(): string | null {
-  // Try both rofl.yaml and rofl.yml
-  const manifestFiles = ['rofl.yaml', 'rofl.yml']
-
-  for (const filename of manifestFiles) {
+  for (const filename of MANIFEST_FILES) {
     if (fs.existsSync(filename)) {
       try {
-        const content = fs.readFileSync(filename, 'utf8')
-        const manifest = yaml.load(content) as RoflManifest
+        const manifest = readManifest(filename)
 
-        if (manifest?.tooling?.version) {
+        if (manifest.tooling?.version) {
           core.debug(
             `Found CLI version ${manifest.tooling.version} in ${filename}`
           )
-          return manifest.tooling.version
+          return String(manifest.tooling.version)
         }
       } catch (error) {
-        core.debug(`Failed to parse ${filename}: ${error}`)
+        core.debug(error instanceof Error ? error.message : String(error))
       }
     }
   }
@@ -72,19 +107,112 @@ function getVersionFromRoflYaml(): string | null {
   return null
 }
 
+/**
+ * Get how long to wait before retrying a failed GitHub API request
+ *
+ * Honors Retry-After and the rate-limit reset time when present, otherwise
+ * backs off exponentially (1s, 2s, 4s, ...).
+ */
+function getRetryDelay(response: Response, attempt: number): number {
+  const retryAfter = Number(response.headers.get('retry-after'))
+  if (retryAfter > 0) {
+    return retryAfter * 1000
+  }
+
+  const reset = Number(response.headers.get('x-ratelimit-reset'))
+  if (response.headers.get('x-ratelimit-remaining') === '0' && reset > 0) {
+    return Math.max(reset * 1000 - Date.now(), 0) + 1000
+  }
+
+  return 1000 * 2 ** (attempt - 1)
+}
+
+/**
+ * Build the error for an exhausted GitHub API rate limit
+ */
+function rateLimitError(response: Response, token?: string): Error {
+  const reset = Number(response.headers.get('x-ratelimit-reset'))
+  const resetAt =
+    reset > 0
+      ? ` The limit resets at ${new Date(reset * 1000).toISOString()}.`
+      : ''
+  const hint = token
+    ? ' The provided token has no requests left.'
+    : ' Set the github_token input (or the GITHUB_TOKEN environment variable) ' +
+      'to raise the anonymous limit of 60 requests per hour.'
+  return new Error(
+    `GitHub API rate limit exhausted (${response.status} ${response.statusText}).${resetAt}${hint}`
+  )
+}
+
+/**
+ * Fetch a GitHub API URL, authenticated when a token is available
+ *
+ * Retries rate-limited (429, or 403 with x-ratelimit-remaining: 0 or
+ * retry-after) and 5xx responses and network errors with backoff.
+ * @param url - GitHub API URL
+ * @param token - Optional GitHub token
+ * @returns The final response (may be unsuccessful for non-retryable errors)
+ */
+async function fetchGitHubApi(url: string, token?: string): Promise<Response> {
+  const headers: Record<string, string> = {
+    Accept: 'application/vnd.github.v3+json',
+    'User-Agent': 'oasis-rofl-action'
+  }
+  if (token) {
+    headers.Authorization = `Bearer ${token}`
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    let response: Response
+    try {
+      response = await fetch(url, { headers })
+    } catch (error) {
+      if (attempt >= GITHUB_API_MAX_ATTEMPTS) {
+        throw error
+      }
+      const delay = 1000 * 2 ** (attempt - 1)
+      core.warning(
+        `GitHub API request failed on attempt ${attempt}: ${error instanceof Error ? error.message : String(error)}. Retrying in ${delay}ms...`
+      )
+      await new Promise((resolve) => setTimeout(resolve, delay))
+      continue
+    }
+
+    // A 403 is only a rate limit when GitHub says so; permission and SSO
+    // errors fail right away
+    const rateLimited =
+      response.status === 429 ||
+      (response.status === 403 &&
+        (response.headers.get('x-ratelimit-remaining') === '0' ||
+          response.headers.has('retry-after')))
+    if (response.ok || !(rateLimited || response.status >= 500)) {
+      return response
+    }
+
+    const delay = getRetryDelay(response, attempt)
+    if (attempt >= GITHUB_API_MAX_ATTEMPTS || delay > GITHUB_API_MAX_WAIT_MS) {
+      if (rateLimited) {
+        throw rateLimitError(response, token)
+      }
+      return response
+    }
+
+    core.warning(
+      `GitHub API returned ${response.status} on attempt ${attempt}/${GITHUB_API_MAX_ATTEMPTS}. Retrying in ${delay}ms...`
+    )
+    await new Promise((resolve) => setTimeout(resolve, delay))
+  }
+}
+
 /**
  * Fetch the latest release version from GitHub API
  */
-async function getLatestVersion(): Promise<string> {
+async function getLatestVersion(token?: string): Promise<string> {
   const url = `https://api.github.com/repos/${CLI_REPO}/releases/latest`
   core.debug(`Fetching latest version from: ${url}`)
 
-  const response = await fetch(url, {
-    headers: {
-      Accept: 'application/vnd.github.v3+json',
-      'User-Agent': 'oasis-rofl-action'
-    }
-  })
+  const response = await fetchGitHubApi(url, token)
 
   if (!response.ok) {
     throw new Error(
@@ -99,29 +227,308 @@ async function getLatestVersion(): Promise<string> {
   return version
 }
 
+/**
+ * Fetch all published (non-draft) release versions from GitHub API
+ */
+async function getReleaseVersions(token?: string): Promise<string[]> {
+  const versions: string[] = []
+
+  for (let page = 1; page <= RELEASES_MAX_PAGES; page++) {
+    const url = `https://api.github.com/repos/${CLI_REPO}/releases?per_page=${RELEASES_PAGE_SIZE}&page=${page}`
+    core.debug(`Fetching releases from: ${url}`)
+
+    const response = await fetchGitHubApi(url, token)
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch releases: ${response.status} ${response.statusText}`
+      )
+    }
+
+    const data = (await response.json()) as Array<{
+      tag_name: string
+      draft: boolean
+    }>
+    for (const release of data) {
+      const version = semver.valid(release.tag_name)
+      if (version && !release.draft) {
+        versions.push(version)
+      }
+    }
+
+    if (data.length < RELEASES_PAGE_SIZE) {
+      break
+    }
+  }
+
+  core.debug(`Found ${versions.length} CLI releases`)
+  return versions
+}
+
+/**
+ * Get the checksums file name for a CLI release
+ */
+function getChecksumsFilename(version: string): string {
+  return `oasis_cli_${version}_checksums.txt`
+}
+
+/**
+ * Find the digest of an asset in the contents of a checksums file
+ * @param content - Checksums file contents
+ * @param filename - Name of the release asset to look up
+ * @param source - Where the checksums came from, for error messages
+ * @returns The lowercase hex digest listed for the asset
+ */
+function parseChecksum(
+  content: string,
+  filename: string,
+  source: string
+): string {
+  // Each line is "<sha256>  <filename>", optionally with a "*" binary marker
+  for (const line of content.split('\n')) {
+    const [digest, name] = line.trim().split(/\s+/)
+    if (name?.replace(/^\*/, '') === filename) {
+      return digest.toLowerCase()
+    }
+  }
+
+  throw new Error(`No checksum for ${filename} found in ${source}`)
+}
+
+/**
+ * Fetch the expected SHA-256 of a release asset from the release checksums file
+ * @param baseUrl - Base URL of the release downloads
+ * @param version - Resolved CLI version
+ * @param filename - Name of the release asset to look up
+ * @returns The lowercase hex digest listed for the asset
+ */
+async function getReleaseChecksum(
+  baseUrl: string,
+  version: string,
+  filename: string
+): Promise<string> {
+  const url = `${baseUrl}/v${version}/${getChecksumsFilename(version)}`
+  core.debug(`Fetching checksums from: ${url}`)
+
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': 'oasis-rofl-action'
+    }
+  })
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch checksums file: ${response.status} ${response.statusText}`
+    )
+  }
+
+  return parseChecksum(await response.text(), filename, url)
+}
+
+/**
+ * Read the expected SHA-256 of a local archive from the checksums file next to it
+ * @param archivePath - Path to the local CLI tarball
+ * @param version - Resolved CLI version
+ * @returns The lowercase hex digest listed for the archive
+ */
+function getLocalChecksum(archivePath: string, version: string): string {
+  const checksumsPath = path.join(
+    path.dirname(archivePath),
+    getChecksumsFilename(version)
+  )
+  if (!fs.existsSync(checksumsPath)) {
+    throw new Error(
+      `No checksums file found for ${archivePath} (looked for ${checksumsPath}). ` +
+        'Place the release checksums file next to the archive or set cli_sha256.'
+    )
+  }
+
+  return parseChecksum(
+    fs.readFileSync(checksumsPath, 'utf8'),
+    path.basename(archivePath),
+    checksumsPath
+  )
+}
+
+/**
+ * Verify the SHA-256 of a CLI tarball
+ * @param tarballPath - Path to the downloaded or local tarball
+ * @param filename - Release asset name, used to look up the expected digest
+ * @param version - Resolved CLI version
+ * @param options - Install options selecting the checksum source
+ * @returns The verified SHA-256 (hex)
+ */
+async function verifyChecksum(
+  tarballPath: string,
+  filename: string,
+  version: string,
+  options: InstallOptions
+): Promise<string> {
+  let expected: string
+  if (options.sha256) {
+    expected = options.sha256.trim().toLowerCase()
+    if (!/^[0-9a-f]{64}$/.test(expected)) {
+      throw new Error(
+        `Invalid cli_sha256: expected 64 hex characters, got "${options.sha256}"`
+      )
+    }
+    core.info(`Verifying ${filename} against pinned cli_sha256`)
+  } else if (options.archivePath) {
+    expected = getLocalChecksum(tarballPath, version)
+    core.info(`Verifying ${filename} against local checksums file`)
+  } else {
+    expected = await getReleaseChecksum(
+      getDownloadBaseUrl(options),
+      version,
+      filename
+    )
+    core.info(`Verifying ${filename} against release checksums`)
+  }
+
+  const actual = crypto
+    .createHash('sha256')
+    .update(fs.readFileSync(tarballPath))
+    .digest('hex')
+
+  if (actual !== expected) {
+    throw new Error(
+      `Checksum mismatch for ${filename}: expected ${expected}, got ${actual}. ` +
+        'Refusing to install a CLI binary that may have been tampered with.'
+    )
+  }
+
+  core.info(`Checksum verified: sha256:${actual}`)
+  return actual
+}
+
+/**
+ * Get the base URL that release assets are downloaded from
+ */
+function getDownloadBaseUrl(options: InstallOptions): string {
+  return (options.downloadBaseUrl || RELEASES_DOWNLOAD_URL).replace(/\/+$/, '')
+}
+
+/**
+ * Extract the CLI version from a local archive's file name
+ * @param archivePath - Path to an oasis_cli_VERSION_PLATFORM_ARCH.tar.gz file
+ */
+function getArchiveVersion(archivePath: string): string {
+  const match = path
+    .basename(archivePath)
+    .match(/^oasis_cli_(.+)_[a-z]+_[a-z0-9]+\.tar\.gz$/)
+  if (!match) {
+    throw new Error(
+      `Cannot determine CLI version from archive name: ${archivePath}. ` +
+        'Expected oasis_cli_VERSION_PLATFORM_ARCH.tar.gz.'
+    )
+  }
+  return match[1]
+}
+
+/**
+ * Resolve the "latest" CLI version for the configured install source
+ *
+ * A local archive provides its own version. A mirror has no releases API, so
+ * the version must be pinned explicitly.
+ */
+async function resolveLatestVersion(options: InstallOptions): Promise<string> {
+  if (options.archivePath) {
+    const version = getArchiveVersion(options.archivePath)
+    core.info(`Using CLI version ${version} from cli_archive_path`)
+    return version
+  }
+
+  if (options.downloadBaseUrl) {
+    throw new Error(
+      'Cannot resolve the latest CLI version when installing from cli_download_base_url. ' +
+        'Set cli_version to an exact version or add tooling.version to rofl.yaml.'
+    )
+  }
+
+  return getLatestVersion(options.githubToken)
+}
+
+/**
+ * Resolve an exact version or a semver range to a CLI version
+ *
+ * Ranges (e.g. "^0.18", "~0.18.2", ">=0.18 <0.20") resolve to the highest
+ * matching release. A local archive must itself satisfy the range.
+ * @param spec - Version or range from cli_version or tooling.version
+ * @param options - Install options selecting the release source
+ */
+async function resolveVersionSpec(
+  spec: string,
+  options: InstallOptions
+): Promise<string> {
+  const exact = semver.valid(spec)
+  if (exact) {
+    return exact
+  }
+
+  const range = semver.validRange(spec)
+  if (!range) {
+    throw new Error(
+      `Invalid CLI version "${spec}". Use "auto", "latest", an exact version or a semver range.`
+    )
+  }
+
+  let version: string | null
+  if (options.archivePath) {
+    version = getArchiveVersion(options.archivePath)
+    if (!semver.satisfies(version, range)) {
+      throw new Error(
+        `CLI archive version ${version} does not satisfy version range ${spec}`
+      )
+    }
+  } else if (options.downloadBaseUrl) {
+    throw new Error(
+      `Cannot resolve CLI version range ${spec} when installing from cli_download_base_url. ` +
+        'Set an exact version instead.'
+    )
+  } else {
+    version = semver.maxSatisfying(
+      await getReleaseVersions(options.githubToken),
+      range
+    )
+    if (!version) {
+      throw new Error(`No Oasis CLI release satisfies version range ${spec}`)
+    }
+  }
+
+  core.info(`Resolved CLI version range ${spec} to ${version}`)
+  return version
+}
+
 /**
  * Install the Oasis CLI
- * @param version - CLI version to install (defaults to DEFAULT_CLI_VERSION, supports "auto" and "latest")
- * @returns Path to the installed CLI directory
+ * @param version - CLI version to install (defaults to DEFAULT_CLI_VERSION, supports "auto", "latest", exact versions and semver ranges)
+ * @param options - Additional installation options
+ * @returns The installed CLI directory, version and where the version came
+ *   from
  */
 export async function installOasisCLI(
-  version: string = DEFAULT_CLI_VERSION
-): Promise<string> {
+  version: string = DEFAULT_CLI_VERSION,
+  options: InstallOptions = {}
+): Promise<InstalledCLI> {
   const platform = getPlatform()
   const arch = getArchitecture()
 
   // Resolve version
   let resolvedVersion = version
+  let source: CLIVersionSource = 'pinned'
+  let requested: string | undefined = version
 
   if (version === 'auto') {
     core.info('Resolving CLI version from rofl.yaml...')
     const yamlVersion = getVersionFromRoflYaml()
 
     if (yamlVersion) {
-      resolvedVersion = yamlVersion
       core.info(
-        `Using CLI version ${resolvedVersion} from rofl.yaml tooling.version`
+        `Using CLI version ${yamlVersion} from rofl.yaml tooling.version`
       )
+      resolvedVersion = await resolveVersionSpec(yamlVersion, options)
+      source = 'auto'
+      requested = yamlVersion
     } else {
       core.warning(
         'Could not find tooling.version in rofl.yaml. ' +
@@ -129,11 +536,17 @@ export async function installOasisCLI(
           'or explicitly set cli_version in the action inputs. ' +
           'Falling back to latest version.'
       )
-      resolvedVersion = await getLatestVersion()
+      resolvedVersion = await resolveLatestVersion(options)
+      source = 'latest'
+      requested = undefined
     }
   } else if (version === 'latest') {
     core.info('Resolving latest CLI version...')
-    resolvedVersion = await getLatestVersion()
+    resolvedVersion = await resolveLatestVersion(options)
+    source = 'latest'
+    requested = undefined
+  } else {
+    resolvedVersion = await resolveVersionSpec(version, options)
   }
 
   core.info(
@@ -142,25 +555,97 @@ export async function installOasisCLI(
 
   const platformArch = `${platform}_${arch}`
   const filename = `oasis_cli_${resolvedVersion}_${platformArch}.tar.gz`
-  const downloadUrl = `https://github.com/${CLI_REPO}/releases/download/v${resolvedVersion}/${filename}`
+  const tarball =
+    options.archivePath ||
+    `${getDownloadBaseUrl(options)}/v${resolvedVersion}/${filename}`
+
+  // Reuse a previously installed copy of this version if the runner has one,
+  // unless it can't be shown to match a pinned cli_sha256
+  const cachedDir = tc.find(TOOL_NAME, resolvedVersion, arch)
+  if (cachedDir) {
+    const digestFile = path.join(cachedDir, TARBALL_DIGEST_FILE)
+    const cachedSha256 = fs.existsSync(digestFile)
+      ? fs.readFileSync(digestFile, 'utf8').trim()
+      : undefined
+    const pinned = options.sha256?.trim().toLowerCase()
+    if (!pinned || cachedSha256 === pinned) {
+      core.info(`Tool cache hit: Oasis CLI ${resolvedVersion} at ${cachedDir}`)
+      core.addPath(cachedDir)
+      core.info(`Oasis CLI ${resolvedVersion} installed successfully`)
+      return {
+        path: cachedDir,
+        version: resolvedVersion,
+        source,
+        requested,
+        tarball,
+        sha256: cachedSha256
+      }
+    }
+    core.warning(
+      `Cached Oasis CLI ${resolvedVersion} has tarball digest ${cachedSha256 ?? 'unknown'}, ` +
+        'not the pinned cli_sha256. Downloading and verifying it again.'
+    )
+  } else {
+    core.info(`Tool cache miss: Oasis CLI ${resolvedVersion}, downloading`)
+  }
+
+  let pathToTarball: string
+  if (options.archivePath) {
+    // Use the tarball already on disk; it must match the expected layout
+    if (path.basename(options.archivePath) !== filename) {
+      throw new Error(
+        `CLI archive ${options.archivePath} does not match the expected file name ${filename}`
+      )
+    }
+    if (!fs.existsSync(options.archivePath)) {
+      throw new Error(`CLI archive not found: ${options.archivePath}`)
+    }
+    core.info(`Using local CLI archive: ${options.archivePath}`)
+    pathToTarball = options.archivePath
+  } else {
+    core.debug(`Downloading from: ${tarball}`)
 
-  core.debug(`Downloading from: ${downloadUrl}`)
+    // Download the tarball
+    pathToTarball = await tc.downloadTool(tarball)
+  }
 
-  // Download the tarball
-  const pathToTarball = await tc.downloadTool(downloadUrl)
+  // Verify the tarball before extracting anything from it
+  const sha256 = await verifyChecksum(
+    pathToTarball,
+    filename,
+    resolvedVersion,
+    options
+  )
 
   // Extract the tarball
   const pathToCLI = await tc.extractTar(pathToTarball)
 
   // The extracted directory structure is: oasis_cli_VERSION_PLATFORM_ARCH/oasis
-  const cliDir = `${pathToCLI}/oasis_cli_${resolvedVersion}_${platformArch}`
+  const extractedDir = `${pathToCLI}/oasis_cli_${resolvedVersion}_${platformArch}`
+  fs.writeFileSync(path.join(extractedDir, TARBALL_DIGEST_FILE), `${sha256}\n`)
+
+  // Register the install in the tool cache so later runs can reuse it
+  const cliDir = await tc.cacheDir(
+    extractedDir,
+    TOOL_NAME,
+    resolvedVersion,
+    arch
+  )
+  core.debug(`Cached Oasis CLI ${resolvedVersion} at ${cliDir}`)
 
   // Add to PATH
   core.addPath(cliDir)
 
   core.info(`Oasis CLI ${resolvedVersion} installed successfully`)
 
-  return cliDir
+  return {
+    path: cliDir,
+    version: resolvedVersion,
+    source,
+    requested,
+    tarball,
+    sha256
+  }
 }
 
 /**
@@ -0,0 +1,153 @@
+/**
+ * Enclave ID verification report
+ *
+ * rofl build --verify fails when the enclave IDs of the build differ from the
+ * ones in rofl.yaml. This module extracts both sets of IDs and formats the
+ * difference for the job summary and error annotations.
+ */
+import { RoflManifest } from './manifest.js'
+
+// Build output printed by the CLI when verification fails
+const VERIFICATION_FAILED_PATTERNS = [
+  /enclave identities DIFFER/i,
+  /enclave identity verification failed/i
+]
+
+// Heading of the list of built enclave IDs in the build output, e.g.
+// "Built enclave identities:" followed by "  - <id>" lines
+const BUILT_IDS_HEADING = /^(built|computed) enclave identit(y|ies):?\s*$/i
+const LIST_ITEM = /^\s*-\s+(\S+)\s*$/
+
+export interface EnclaveIdDiff {
+  // IDs in both rofl.yaml and the build
+  matching: string[]
+  // IDs in rofl.yaml that the build did not produce
+  missing: string[]
+  // IDs the build produced that are not in rofl.yaml
+  unexpected: string[]
+}
+
+/**
+ * Check whether rofl build output reports failed enclave ID verification
+ */
+export function isVerificationFailure(output: string): boolean {
+  return VERIFICATION_FAILED_PATTERNS.some((pattern) => pattern.test(output))
+}
+
+/**
+ * Get the enclave IDs a deployment expects, from its policy in rofl.yaml
+ */
+export function expectedEnclaveIds(
+  manifest: RoflManifest,
+  deployment: string
+): string[] {
+  const enclaves = manifest.deployments?.[deployment]?.policy?.enclaves ?? []
+  return enclaves
+    .map((enclave) => (typeof enclave === 'string' ? enclave : enclave.id))
+    .filter((id): id is string => !!id)
+}
+
+/**
+ * Extract the enclave IDs of the build from the rofl build output
+ */
+export function builtEnclaveIds(output: string): string[] {
+  const ids: string[] = []
+  let inList = false
+  for (const line of output.split(/\r?\n/)) {
+    if (BUILT_IDS_HEADING.test(line.trim())) {
+      inList = true
+      continue
+    }
+    const item = inList ? LIST_ITEM.exec(line) : null
+    if (item) {
+      ids.push(item[1])
+    } else {
+      inList = false
+    }
+  }
+  return [...new Set(ids)]
+}
+
+/**
+ * Compare the expected and built enclave IDs
+ */
+export function diffEnclaveIds(
+  expected: string[],
+  actual: string[]
+): EnclaveIdDiff {
+  return {
+    matching: expected.filter((id) => actual.includes(id)),
+    missing: expected.filter((id) => !actual.includes(id)),
+    unexpected: actual.filter((id) => !expected.includes(id))
+  }
+}
+
+/**
+ * Pair up the IDs side by side as [expected, actual] rows. Matching IDs share a
+ * row, the remaining ones are paired in order.
+ */
+export function sideBySide(diff: EnclaveIdDiff): Array<[string, string]> {
+  const rows: Array<[string, string]> = diff.matching.map((id) => [id, id])
+  const count = Math.max(diff.missing.length, diff.unexpected.length)
+  for (let i = 0; i < count; i++) {
+    rows.push([diff.missing[i] ?? '', diff.unexpected[i] ?? ''])
+  }
+  return rows
+}
+
+/**
+ * Find the rofl.yaml line to annotate: the first expected ID, or the enclaves
+ * list when no expected ID is found
+ * @returns The 1-based line number, undefined if neither is found
+ */
+export function annotationLine(
+  manifestText: string,
+  expected: string[]
+): number | undefined {
+  const lines = manifestText.split(/\r?\n/)
+  for (const id of expected) {
+    const index = lines.findIndex((line) => line.includes(id))
+    if (index >= 0) {
+      return index + 1
+    }
+  }
+  const index = lines.findIndex((line) => /^\s*enclaves:/.test(line))
+  return index >= 0 ? index + 1 : undefined
+}
+
+/**
+ * Describe how to fix a mismatch
+ * @param file - Manifest file name (rofl.yaml or rofl.yml)
+ * @param deployment - Deployment that failed verification
+ */
+export function mismatchHint(file: string, deployment: string): string {
+  return (
+    `If the change is expected, run oasis rofl build --deployment ${deployment} ` +
+    `(or this action with update_manifest: true) and commit the new enclave IDs ` +
+    `in ${file}. Otherwise, check for non-reproducible build inputs such as ` +
+    'unpinned base images or dependencies.'
+  )
+}
+
+/**
+ * Format the mismatch as plain text for logs and error annotations
+ */
+export function formatMismatch(
+  file: string,
+  deployment: string,
+  diff: EnclaveIdDiff
+): string {
+  const lines = [
+    `Enclave ID mismatch for deployment ${deployment}: ` +
+      `the build does not match ${file}`,
+    ...diff.matching.map((id) => `  ${id}`),
+    ...diff.missing.map((id) => `- ${id} (expected, in ${file})`),
+    ...diff.unexpected.map((id) => `+ ${id} (actual, from the build)`)
+  ]
+  // Built IDs are the matching plus the unexpected ones
+  if (diff.matching.length === 0 && diff.unexpected.length === 0) {
+    lines.push('  (could not extract enclave IDs from the build output)')
+  }
+  lines.push(mismatchHint(file, deployment))
+  return lines.join('\n')
+}
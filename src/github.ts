@@ -0,0 +1,369 @@
+/**
+ * Update pull requests through the GitHub REST API
+ *
+ * Creates the blobs, tree, commit and branch ref through the git database API
+ * instead of running git, so the flow works without gh and on shallow or
+ * detached checkouts. The commits are made without an explicit author, which
+ * lets GitHub sign them as the token's identity and show them as verified.
+ * https://docs.github.com/en/rest/git
+ */
+import * as core from '@actions/core'
+import * as fs from 'fs'
+import * as path from 'path'
+import { parseManifest } from './manifest.js'
+import {
+  BranchState,
+  isUpdateBranch,
+  PullRequest,
+  UpdatePrClient,
+  UpdatePrSettings
+} from './pullrequest.js'
+
+const DEFAULT_API_URL = 'https://api.github.com'
+
+// Regular, non-executable file in a git tree
+const FILE_MODE = '100644'
+
+export interface ApiClientOptions {
+  token: string
+  // Repository as owner/name (GITHUB_REPOSITORY)
+  repository?: string
+  // API base URL (GITHUB_API_URL), e.g. for GitHub Enterprise Server
+  apiUrl?: string
+  // Repository checkout, for the paths of the manifest files (GITHUB_WORKSPACE)
+  workspace?: string
+}
+
+/**
+ * Get the API client options from the GitHub Actions environment
+ */
+export function apiClientOptions(
+  token: string,
+  env: NodeJS.ProcessEnv = process.env
+): ApiClientOptions {
+  return {
+    token,
+    repository: env.GITHUB_REPOSITORY,
+    apiUrl: env.GITHUB_API_URL,
+    workspace: env.GITHUB_WORKSPACE
+  }
+}
+
+/**
+ * Get the path of a file relative to the repository root, with / separators
+ */
+export function repositoryPath(file: string, workspace: string): string {
+  return path.relative(workspace, path.resolve(file)).split(path.sep).join('/')
+}
+
+/**
+ * Get the URL of the next page from a Link response header
+ * https://docs.github.com/en/rest/using-the-rest-api/using-pagination-in-the-rest-api
+ */
+function nextPage(link: string | null): string | undefined {
+  return link
+    ?.split(',')
+    .map((part) => /<([^>]+)>\s*;\s*rel="next"/.exec(part)?.[1])
+    .find((url) => url)
+}
+
+/**
+ * Get the PR number, from the PR or its URL
+ */
+function prNumber(pr: PullRequest): number {
+  const number = pr.number ?? Number(/\/pull\/(\d+)/.exec(pr.url)?.[1])
+  if (!number) {
+    throw new Error(`Failed to get the pull request number from ${pr.url}`)
+  }
+  return number
+}
+
+/**
+ * Create the update PR flow for the GitHub REST API
+ * @throws Error if the repository is not set
+ */
+export function apiClient(options: ApiClientOptions): UpdatePrClient {
+  if (!options.repository) {
+    throw new Error(
+      'GITHUB_REPOSITORY is not set. update_pr_method: api needs the repository to open pull requests in.'
+    )
+  }
+  const apiUrl = (options.apiUrl || DEFAULT_API_URL).replace(/\/+$/, '')
+  const repoUrl = `${apiUrl}/repos/${options.repository}`
+  const workspace = options.workspace || process.cwd()
+
+  /**
+   * Send a request to the API
+   * @param url - Absolute URL
+   * @param resource - Path below /repos/{owner}/{repo}, for error messages
+   * @throws Error with the status and API message for failures
+   */
+  async function send(
+    method: string,
+    url: string,
+    resource: string,
+    body?: unknown,
+    allowNotFound = false
+  ): Promise<Response> {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        Accept: 'application/vnd.github+json',
+        Authorization: `Bearer ${options.token}`,
+        'Content-Type': 'application/json',
+        'User-Agent': 'oasis-rofl-action',
+        'X-GitHub-Api-Version': '2022-11-28'
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    })
+    if (!response.ok && !(response.status === 404 && allowNotFound)) {
+      let message = ''
+      try {
+        const error = (await response.json()) as { message?: string }
+        message = error.message ? `: ${error.message}` : ''
+      } catch {
+        // The body is not JSON, the status is enough
+      }
+      throw new Error(
+        `GitHub API ${method} ${resource} failed with ${response.status} ${response.statusText}${message}`
+      )
+    }
+    return response
+  }
+
+  /**
+   * Send a request to the repository API
+   * @param resource - Path below /repos/{owner}/{repo}
+   * @returns The parsed JSON response, null for 404 when allowNotFound is set
+   * @throws Error with the status and API message for other failures
+   */
+  async function request<T>(
+    method: string,
+    resource: string,
+    body?: unknown,
+    allowNotFound = false
+  ): Promise<T> {
+    const response = await send(
+      method,
+      `${repoUrl}${resource}`,
+      resource,
+      body,
+      allowNotFound
+    )
+    if (response.status === 404 || response.status === 204) {
+      return null as T
+    }
+    return (await response.json()) as T
+  }
+
+  /**
+   * List every item of a repository API collection, page by page
+   * @param resource - Path below /repos/{owner}/{repo}, with the query
+   */
+  async function* list<T>(resource: string): AsyncGenerator<T> {
+    let url: string | undefined = `${repoUrl}${resource}`
+    while (url) {
+      const response = await send('GET', url, resource)
+      yield* (await response.json()) as T[]
+      url = nextPage(response.headers.get('link'))
+    }
+  }
+
+  async function baseBranch(settings: UpdatePrSettings): Promise<string> {
+    if (settings.base) {
+      return settings.base
+    }
+    const repo = await request<{ default_branch: string }>('GET', '')
+    return repo.default_branch
+  }
+
+  async function find(
+    settings: UpdatePrSettings
+  ): Promise<PullRequest | undefined> {
+    const query = settings.base
+      ? `&base=${encodeURIComponent(settings.base)}`
+      : ''
+    for await (const pr of list<{
+      number: number
+      html_url: string
+      head: { ref: string }
+    }>(`/pulls?state=open&per_page=100${query}`)) {
+      if (isUpdateBranch(settings.branchPrefix, pr.head.ref)) {
+        return { url: pr.html_url, branch: pr.head.ref, number: pr.number }
+      }
+    }
+    return undefined
+  }
+
+  async function compare(
+    branch: string,
+    files: string[]
+  ): Promise<BranchState | undefined> {
+    let changed = false
+    let manifest
+    for (const file of files) {
+      const content = await request<{ content: string } | null>(
+        'GET',
+        `/contents/${repositoryPath(file, workspace)}?ref=${encodeURIComponent(branch)}`,
+        undefined,
+        true
+      )
+      const text =
+        content && Buffer.from(content.content, 'base64').toString('utf8')
+      if (text !== fs.readFileSync(file, 'utf8')) {
+        changed = true
+      }
+      if (file === files[0] && text) {
+        try {
+          manifest = parseManifest(text, file)
+        } catch (error) {
+          core.warning(
+            `Failed to read ${file} on ${branch}: ${error instanceof Error ? error.message : error}`
+          )
+        }
+      }
+    }
+    return { changed, manifest }
+  }
+
+  async function push(
+    settings: UpdatePrSettings,
+    branch: string,
+    files: string[]
+  ): Promise<void> {
+    const base = await baseBranch(settings)
+    const baseRef = await request<{ object: { sha: string } }>(
+      'GET',
+      `/git/ref/heads/${base}`
+    )
+    const parent = await request<{ tree: { sha: string } }>(
+      'GET',
+      `/git/commits/${baseRef.object.sha}`
+    )
+
+    const entries = []
+    for (const file of files) {
+      const blob = await request<{ sha: string }>('POST', '/git/blobs', {
+        content: fs.readFileSync(file).toString('base64'),
+        encoding: 'base64'
+      })
+      entries.push({
+        path: repositoryPath(file, workspace),
+        mode: FILE_MODE,
+        type: 'blob',
+        sha: blob.sha
+      })
+    }
+    const tree = await request<{ sha: string }>('POST', '/git/trees', {
+      base_tree: parent.tree.sha,
+      tree: entries
+    })
+    const commit = await request<{ sha: string }>('POST', '/git/commits', {
+      message: `${settings.title}\n\n🤖 Generated by ROFL GitHub Action`,
+      tree: tree.sha,
+      parents: [baseRef.object.sha]
+    })
+
+    // Point the branch at the commit, creating it or force-updating it
+    const existing = await request<unknown>(
+      'GET',
+      `/git/ref/heads/${branch}`,
+      undefined,
+      true
+    )
+    if (existing) {
+      core.info(`Remote branch ${branch} exists, force updating it`)
+      await request('PATCH', `/git/refs/heads/${branch}`, {
+        sha: commit.sha,
+        force: true
+      })
+    } else {
+      await request('POST', '/git/refs', {
+        ref: `refs/heads/${branch}`,
+        sha: commit.sha
+      })
+    }
+    core.info(`Committed ${commit.sha} to ${branch}`)
+  }
+
+  async function create(
+    settings: UpdatePrSettings,
+    branch: string,
+    body: string
+  ): Promise<string> {
+    const pr = await request<{ number: number; html_url: string }>(
+      'POST',
+      '/pulls',
+      {
+        title: settings.title,
+        head: branch,
+        base: await baseBranch(settings),
+        body,
+        draft: settings.draft
+      }
+    )
+
+    if (settings.labels.length > 0) {
+      await request('POST', `/issues/${pr.number}/labels`, {
+        labels: settings.labels
+      })
+    }
+    // Team reviewers are given as org/team, the API takes the team slug
+    const teams = settings.reviewers.filter((reviewer) =>
+      reviewer.includes('/')
+    )
+    const users = settings.reviewers.filter(
+      (reviewer) => !reviewer.includes('/')
+    )
+    if (teams.length > 0 || users.length > 0) {
+      await request('POST', `/pulls/${pr.number}/requested_reviewers`, {
+        reviewers: users,
+        team_reviewers: teams.map((team) => team.split('/')[1])
+      })
+    }
+    if (settings.assignees.length > 0) {
+      await request('POST', `/issues/${pr.number}/assignees`, {
+        assignees: settings.assignees
+      })
+    }
+    return pr.html_url
+  }
+
+  async function refresh(
+    pr: PullRequest,
+    body: string,
+    comment: string
+  ): Promise<void> {
+    const number = prNumber(pr)
+    await request('PATCH', `/pulls/${number}`, { body })
+    await request('POST', `/issues/${number}/comments`, { body: comment })
+  }
+
+  async function report(
+    settings: UpdatePrSettings,
+    title: string,
+    body: string
+  ): Promise<string> {
+    // The issues endpoint lists pull requests too
+    for await (const issue of list<{
+      number: number
+      title: string
+      html_url: string
+      pull_request?: unknown
+    }>('/issues?state=open&per_page=100')) {
+      if (!issue.pull_request && issue.title === title) {
+        await request('POST', `/issues/${issue.number}/comments`, { body })
+        return issue.html_url
+      }
+    }
+    const issue = await request<{ html_url: string }>('POST', '/issues', {
+      title,
+      body,
+      labels: settings.labels,
+      assignees: settings.assignees
+    })
+    return issue.html_url
+  }
+
+  return { find, compare, push, create, refresh, report }
+}
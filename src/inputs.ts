@@ -0,0 +1,481 @@
+/**
+ * Action input parsing and validation
+ *
+ * All inputs are read and checked up front, before the CLI is installed or any
+ * command runs. Every violation is collected and reported in a single error.
+ */
+import * as core from '@actions/core'
+
+export const TERMS = ['hour', 'month', 'year'] as const
+export const FORMATS = ['json', 'cbor'] as const
+export const UPDATE_PR_METHODS = ['git', 'api'] as const
+export const UPDATE_PR_MODES = ['combined', 'per-app'] as const
+export const WALLET_ALGORITHMS = [
+  'ed25519-adr8',
+  'ed25519-raw',
+  'secp256k1-bip44',
+  'secp256k1-raw',
+  'sr25519-adr8',
+  'sr25519-raw'
+] as const
+
+// Used when neither the input nor the rofl.yaml deployment sets a value
+export const DEFAULT_NETWORK = 'mainnet'
+export const DEFAULT_WALLET_ACCOUNT = 'test:alice'
+
+// Update pull request defaults. Open update PRs are found by the branch prefix,
+// so it should stay stable across runs.
+export const DEFAULT_UPDATE_BRANCH_PREFIX = 'rofl-update-'
+export const DEFAULT_UPDATE_PR_TITLE =
+  'chore: update ROFL artifacts to latest versions'
+export const DEFAULT_COMMIT_AUTHOR =
+  'github-actions[bot] <github-actions[bot]@users.noreply.github.com>'
+
+// Git author as "Name <email>"
+export const COMMIT_AUTHOR = /^(.+?)\s*<([^<>\s]+@[^<>\s]+)>$/
+
+export type Term = (typeof TERMS)[number]
+export type Format = (typeof FORMATS)[number]
+export type UpdatePrMethod = (typeof UPDATE_PR_METHODS)[number]
+export type UpdatePrMode = (typeof UPDATE_PR_MODES)[number]
+export type WalletAlgorithm = (typeof WALLET_ALGORITHMS)[number]
+
+// Boolean spellings accepted by the YAML 1.2 core schema (same as
+// core.getBooleanInput)
+const TRUE_VALUES = ['true', 'True', 'TRUE']
+const FALSE_VALUES = ['false', 'False', 'FALSE']
+
+/**
+ * Parsed action inputs
+ *
+ * Numeric inputs are validated but kept as strings, since they are passed to
+ * the CLI verbatim. Optional enums are empty strings when not set. network and
+ * walletAccount are empty when not set, and are filled in from rofl.yaml or
+ * the defaults before the plan is built.
+ */
+export interface ActionInputs {
+  // CLI version
+  cliVersion: string
+  cliSha256: string
+  cliDownloadBaseUrl: string
+  cliArchivePath: string
+  githubToken: string | undefined
+
+  // Auto-update feature
+  checkUpdates: boolean
+  createUpdatePr: boolean
+  // Build the upgraded manifest before opening the update PR
+  validateUpdate: boolean
+  // Upgrade every app whose manifest matches, one PR for all or one per app
+  manifestGlob: string
+  updatePrMode: UpdatePrMode
+  updatePrMethod: UpdatePrMethod
+  updateBranchPrefix: string
+  updatePrBase: string
+  updatePrTitle: string
+  updatePrLabels: string[]
+  updatePrReviewers: string[]
+  updatePrAssignees: string[]
+  updatePrDraft: boolean
+  updateCommitAuthor: string
+
+  // Print the execution plan without running anything
+  planOnly: boolean
+
+  // Write an in-toto statement with SLSA provenance for the bundle
+  attestBundle: boolean
+
+  // Existing ROFL inputs
+  config: string
+  deployment: string
+  deployments: string[]
+  encrypted: boolean
+  feeDenom: string
+  force: boolean
+  format: Format | ''
+  gasLimit: string
+  gasPrice: string
+  machine: string
+  network: string
+  // Network and wallet account of each deployment, filled in with network and
+  // walletAccount from the inputs, rofl.yaml or the defaults (not inputs)
+  deploymentNetworks?: Record<string, string>
+  deploymentAccounts?: Record<string, string>
+  noContainer: boolean
+  noUpdateManifest: boolean
+  updateManifest: boolean
+  nonce: string
+  offer: string
+  offline: boolean
+  onlyValidate: boolean
+  output: string
+  outputFile: string
+  provider: string
+  replaceMachine: boolean
+  showOffers: boolean
+  term: Term | ''
+  termCount: string
+  unsigned: boolean
+  verbose: boolean
+  verify: boolean
+  walletAccount: string
+  walletImport: boolean
+  walletAlgorithm: WalletAlgorithm | ''
+  walletNumber: string
+  walletSecret: string
+  wipeStorage: boolean
+  workingDirectory: string
+
+  // Skip flags
+  skipBuild: boolean
+  skipUpdate: boolean
+  skipDeploy: boolean
+
+  // Separate output files
+  updateOutputFile: string
+  deployOutputFile: string
+
+  // Safe inputs (enabled automatically when safe_address is provided)
+  safeAddress: string
+  safeProposerKey: string
+  safeRpcUrl: string
+  safeServiceUrl: string
+  safeChainId: string
+  safeDryRun: boolean
+  // Write a Safe Transaction Builder batch file instead of proposing
+  safeExport: boolean
+  // Extra Safe networks, from a JSON/YAML file and the Oasis CLI config
+  safeNetworksFile: string
+  safeCliNetworks: boolean
+}
+
+// Typed input readers. Invalid values are reported by pushing a message to
+// errors rather than throwing, so all violations can be reported together.
+
+function readString(name: string): string {
+  return core.getInput(name)
+}
+
+function readBoolean(name: string, errors: string[]): boolean {
+  const value = core.getInput(name)
+  if (!value || FALSE_VALUES.includes(value)) {
+    return false
+  }
+  if (TRUE_VALUES.includes(value)) {
+    return true
+  }
+  errors.push(`${name}: expected true or false, got "${value}"`)
+  return false
+}
+
+function readInteger(name: string, errors: string[], min = 0): string {
+  const value = core.getInput(name)
+  if (value && (!/^\d+$/.test(value) || Number(value) < min)) {
+    errors.push(`${name}: expected an integer >= ${min}, got "${value}"`)
+  }
+  return value
+}
+
+function readDecimal(name: string, errors: string[]): string {
+  const value = core.getInput(name)
+  if (value && !/^\d+(\.\d+)?$/.test(value)) {
+    errors.push(`${name}: expected a non-negative number, got "${value}"`)
+  }
+  return value
+}
+
+function readOneOf<T extends string>(
+  name: string,
+  values: readonly T[],
+  errors: string[]
+): T | '' {
+  const value = core.getInput(name)
+  if (!value) {
+    return ''
+  }
+  if (!(values as readonly string[]).includes(value)) {
+    errors.push(
+      `${name}: expected one of [${values.join(', ')}], got "${value}"`
+    )
+    return ''
+  }
+  return value as T
+}
+
+function readAddress(name: string, errors: string[]): string {
+  const value = core.getInput(name)
+  if (value && !/^0x[0-9a-fA-F]{40}$/.test(value)) {
+    errors.push(`${name}: expected a 0x-prefixed address, got "${value}"`)
+  }
+  return value
+}
+
+function readSha256(name: string, errors: string[]): string {
+  const value = core.getInput(name)
+  if (value && !/^[0-9a-fA-F]{64}$/.test(value)) {
+    errors.push(`${name}: expected 64 hex characters, got "${value}"`)
+  }
+  return value
+}
+
+function readBranch(name: string, errors: string[]): string {
+  const value = core.getInput(name)
+  if (
+    value &&
+    (!/^[A-Za-z0-9._/-]+$/.test(value) ||
+      value.includes('..') ||
+      value.startsWith('/'))
+  ) {
+    errors.push(`${name}: expected a git branch name, got "${value}"`)
+  }
+  return value
+}
+
+function readAuthor(name: string, errors: string[]): string {
+  const value = core.getInput(name)
+  if (value && !COMMIT_AUTHOR.test(value)) {
+    errors.push(`${name}: expected "Name <email>", got "${value}"`)
+  }
+  return value
+}
+
+/**
+ * Split a list input on newlines and commas, dropping empty entries
+ */
+function readList(name: string): string[] {
+  return core
+    .getInput(name)
+    .split(/[\n,]/)
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0)
+}
+
+/**
+ * Check for input combinations that contradict each other
+ * @returns A message per violation
+ */
+function validateCombinations(inputs: ActionInputs): string[] {
+  const errors: string[] = []
+
+  if (inputs.encrypted && inputs.offline) {
+    errors.push(
+      'encrypted: requires online mode and cannot be combined with offline'
+    )
+  }
+  if (inputs.updateManifest && inputs.noUpdateManifest) {
+    errors.push('update_manifest: cannot be combined with no_update_manifest')
+  }
+  if (inputs.updateManifest && inputs.verify) {
+    errors.push(
+      'update_manifest: skips verification and cannot be combined with verify'
+    )
+  }
+  if (inputs.createUpdatePr && !inputs.checkUpdates) {
+    errors.push('create_update_pr: requires check_updates: true')
+  }
+  if (inputs.validateUpdate && !inputs.checkUpdates) {
+    errors.push('validate_update: requires check_updates: true')
+  }
+  if (inputs.validateUpdate && (inputs.skipBuild || inputs.onlyValidate)) {
+    errors.push(
+      'validate_update: builds the upgraded manifest and cannot be combined with skip_build or only_validate'
+    )
+  }
+  if (inputs.manifestGlob && !inputs.checkUpdates) {
+    errors.push('manifest_glob: requires check_updates: true')
+  }
+  if (
+    inputs.manifestGlob.startsWith('/') ||
+    inputs.manifestGlob.split('/').includes('..')
+  ) {
+    errors.push(
+      `manifest_glob: expected a path below the working directory, got "${inputs.manifestGlob}"`
+    )
+  }
+  if (inputs.updatePrMethod === 'api' && !inputs.githubToken) {
+    errors.push(
+      'update_pr_method: api requires github_token (or the GITHUB_TOKEN environment variable)'
+    )
+  }
+  if (inputs.attestBundle && (inputs.skipBuild || inputs.onlyValidate)) {
+    errors.push(
+      'attest_bundle: requires a bundle and cannot be combined with skip_build or only_validate'
+    )
+  }
+  if (inputs.walletImport && !inputs.walletSecret) {
+    errors.push('wallet_import: requires wallet_secret')
+  }
+
+  // deployment and deployments are mutually exclusive
+  if (inputs.deployment && inputs.deployments.length > 0) {
+    errors.push(
+      'deployments: set either deployment or deployments, not both. ' +
+        'Use deployments to run several deployments in one invocation.'
+    )
+  }
+  if (new Set(inputs.deployments).size !== inputs.deployments.length) {
+    errors.push(
+      `deployments: duplicate entries in ${inputs.deployments.join(', ')}`
+    )
+  }
+
+  if (inputs.safeNetworksFile && !inputs.safeAddress) {
+    errors.push('safe_networks_file: requires safe_address')
+  }
+  if (inputs.safeCliNetworks && !inputs.safeAddress) {
+    errors.push('safe_cli_networks: requires safe_address')
+  }
+
+  if (inputs.safeExport && !inputs.safeAddress) {
+    errors.push('safe_export: requires safe_address')
+  }
+  if (inputs.safeExport && inputs.safeDryRun) {
+    errors.push('safe_dry_run: not used with safe_export, which never proposes')
+  }
+
+  // Safe mode requires offline transaction generation into files
+  if (inputs.safeAddress) {
+    if (!inputs.safeProposerKey && !inputs.safeExport) {
+      errors.push(
+        'safe_proposer_key: required when safe_address is set, unless safe_export is enabled'
+      )
+    }
+    if (!inputs.skipUpdate && !inputs.updateOutputFile && !inputs.outputFile) {
+      errors.push(
+        'Safe mode requires update_output_file (or output_file) when update is enabled. ' +
+          'This file will contain the unsigned CBOR transaction for Safe proposal.'
+      )
+    }
+    if (!inputs.skipDeploy && !inputs.deployOutputFile && !inputs.outputFile) {
+      errors.push(
+        'Safe mode requires deploy_output_file (or output_file) when deploy is enabled. ' +
+          'This file will contain the unsigned CBOR transaction for Safe proposal.'
+      )
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Get a copy of the inputs with secrets replaced by ***, for logs and records
+ */
+export function redactInputs(inputs: ActionInputs): ActionInputs {
+  return {
+    ...inputs,
+    githubToken: inputs.githubToken && '***',
+    safeProposerKey: inputs.safeProposerKey && '***',
+    walletSecret: inputs.walletSecret && '***'
+  }
+}
+
+/**
+ * Read and validate all action inputs
+ * @returns The typed inputs
+ * @throws Error listing every invalid input and contradictory combination
+ */
+export function getInputs(): ActionInputs {
+  const errors: string[] = []
+
+  const inputs: ActionInputs = {
+    // CLI version
+    cliVersion: readString('cli_version'),
+    cliSha256: readSha256('cli_sha256', errors),
+    cliDownloadBaseUrl: readString('cli_download_base_url'),
+    cliArchivePath: readString('cli_archive_path'),
+    githubToken: readString('github_token') || process.env.GITHUB_TOKEN,
+
+    // Auto-update feature
+    checkUpdates: readBoolean('check_updates', errors),
+    createUpdatePr: readBoolean('create_update_pr', errors),
+    validateUpdate: readBoolean('validate_update', errors),
+    manifestGlob: readString('manifest_glob'),
+    updatePrMode:
+      readOneOf('update_pr_mode', UPDATE_PR_MODES, errors) || 'combined',
+    updatePrMethod:
+      readOneOf('update_pr_method', UPDATE_PR_METHODS, errors) || 'git',
+    updateBranchPrefix:
+      readBranch('update_branch_prefix', errors) ||
+      DEFAULT_UPDATE_BRANCH_PREFIX,
+    updatePrBase: readBranch('update_pr_base', errors),
+    updatePrTitle: readString('update_pr_title') || DEFAULT_UPDATE_PR_TITLE,
+    updatePrLabels: readList('update_pr_labels'),
+    updatePrReviewers: readList('update_pr_reviewers'),
+    updatePrAssignees: readList('update_pr_assignees'),
+    updatePrDraft: readBoolean('update_pr_draft', errors),
+    updateCommitAuthor:
+      readAuthor('update_commit_author', errors) || DEFAULT_COMMIT_AUTHOR,
+
+    // Print the execution plan without running anything
+    planOnly: readBoolean('plan_only', errors),
+
+    // Write an in-toto statement with SLSA provenance for the bundle
+    attestBundle: readBoolean('attest_bundle', errors),
+
+    // Existing ROFL inputs
+    config: readString('config'),
+    deployment: readString('deployment'),
+    deployments: readList('deployments'),
+    encrypted: readBoolean('encrypted', errors),
+    feeDenom: readString('fee_denom'),
+    force: readBoolean('force', errors),
+    format: readOneOf('format', FORMATS, errors),
+    gasLimit: readInteger('gas_limit', errors),
+    gasPrice: readDecimal('gas_price', errors),
+    machine: readString('machine'),
+    network: readString('network'),
+    noContainer: readBoolean('no_container', errors),
+    noUpdateManifest: readBoolean('no_update_manifest', errors),
+    updateManifest: readBoolean('update_manifest', errors),
+    nonce: readInteger('nonce', errors),
+    offer: readString('offer'),
+    offline: readBoolean('offline', errors),
+    onlyValidate: readBoolean('only_validate', errors),
+    output: readString('output'),
+    outputFile: readString('output_file'),
+    provider: readString('provider'),
+    replaceMachine: readBoolean('replace_machine', errors),
+    showOffers: readBoolean('show_offers', errors),
+    term: readOneOf('term', TERMS, errors),
+    termCount: readInteger('term_count', errors, 1),
+    unsigned: readBoolean('unsigned', errors),
+    verbose: readBoolean('verbose', errors),
+    verify: readBoolean('verify', errors),
+    walletAccount: readString('wallet_account'),
+    walletImport: readBoolean('wallet_import', errors),
+    walletAlgorithm: readOneOf('wallet_algorithm', WALLET_ALGORITHMS, errors),
+    walletNumber: readInteger('wallet_number', errors),
+    walletSecret: readString('wallet_secret'),
+    wipeStorage: readBoolean('wipe_storage', errors),
+    workingDirectory: readString('working_directory'),
+
+    // Skip flags
+    skipBuild: readBoolean('skip_build', errors),
+    skipUpdate: readBoolean('skip_update', errors),
+    skipDeploy: readBoolean('skip_deploy', errors),
+
+    // Separate output files
+    updateOutputFile: readString('update_output_file'),
+    deployOutputFile: readString('deploy_output_file'),
+
+    // Safe inputs (enabled automatically when safe_address is provided)
+    safeAddress: readAddress('safe_address', errors),
+    safeProposerKey: readString('safe_proposer_key'),
+    safeRpcUrl: readString('safe_rpc_url'),
+    safeServiceUrl: readString('safe_service_url'),
+    safeChainId: readInteger('safe_chain_id', errors, 1),
+    safeDryRun: readBoolean('safe_dry_run', errors),
+    safeExport: readBoolean('safe_export', errors),
+    safeNetworksFile: readString('safe_networks_file'),
+    safeCliNetworks: readBoolean('safe_cli_networks', errors)
+  }
+
+  errors.push(...validateCombinations(inputs))
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid action inputs:\n${errors.map((e) => `  - ${e}`).join('\n')}`
+    )
+  }
+
+  return inputs
+}
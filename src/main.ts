@@ -6,8 +6,928 @@ import * as core from '@actions/core'
 import * as exec from '@actions/exec'
 import * as path from 'path'
 import * as fs from 'fs'
-import { runSafeProposal, SafeInputs, TransactionFiles } from './safe.js'
-import { installOasisCLI } from './cli.js'
+import { runSafeProposal, SafeInputs } from './safe.js'
+import { CallPreview } from './preview.js'
+import {
+  buildEnclaveIds,
+  DEFAULT_MACHINE,
+  deploymentDetails,
+  DeploymentDetails,
+  discoverBundle,
+  fileDigest,
+  workflowRun,
+  writeProvenance
+} from './artifacts.js'
+import {
+  annotationLine,
+  builtEnclaveIds,
+  diffEnclaveIds,
+  expectedEnclaveIds,
+  formatMismatch,
+  isVerificationFailure,
+  mismatchHint,
+  sideBySide
+} from './enclaves.js'
+import { buildStatement, writeStatement } from './attestation.js'
+import { InstalledCLI, installOasisCLI } from './cli.js'
+import {
+  allChanges,
+  AppUpdate,
+  BUILD_FAILURE_TITLE,
+  buildFailureBody,
+  diffArtifacts,
+  refreshComment,
+  updatePrBody
+} from './upgrade.js'
+import {
+  appBranchPrefix,
+  ghClient,
+  updateBranch,
+  UpdatePrClient,
+  UpdatePrSettings,
+  updatePrSettings
+} from './pullrequest.js'
+import { apiClient, apiClientOptions, repositoryPath } from './github.js'
+import {
+  cliConfigPath,
+  getNetwork,
+  loadNetworkRegistry,
+  NetworkRegistry
+} from './networks.js'
+import {
+  ActionInputs,
+  DEFAULT_NETWORK,
+  DEFAULT_WALLET_ACCOUNT,
+  getInputs,
+  redactInputs
+} from './inputs.js'
+import {
+  DEFAULT_DEPLOYMENT,
+  deploymentValue,
+  findManifests,
+  LoadedManifest,
+  loadManifest,
+  MANIFEST_FILES,
+  RoflManifest,
+  validateManifest
+} from './manifest.js'
+import {
+  buildPlan,
+  ExecutionPlan,
+  PlanStep,
+  planToJSON,
+  redactArgs,
+  selectDeployments,
+  StepId,
+  stepTitle
+} from './plan.js'
+import {
+  createReport,
+  DeploymentResult,
+  describeCLIVersion,
+  recordStep,
+  RunReport,
+  skipSteps,
+  StepRecord,
+  writeRunSummary
+} from './summary.js'
+
+// Result keys for the files produced by build, update and deploy
+const OUTPUT_KEYS: Partial<
+  Record<StepId, 'build_output' | 'update_file' | 'deploy_file'>
+> = {
+  build: 'build_output',
+  update: 'update_file',
+  deploy: 'deploy_file'
+}
+
+/**
+ * Print the execution plan, write it to the job summary and set the plan
+ * output
+ */
+async function reportPlan(plan: ExecutionPlan): Promise<void> {
+  core.info(`Execution plan (Oasis CLI version: ${plan.cliVersion}):`)
+  const rows = plan.steps.map((step, i) => {
+    const command = [step.command, ...redactArgs(step.args)].join(' ')
+    const target = step.deployment ? ` [${step.deployment}]` : ''
+    core.info(
+      `  ${i + 1}. ${stepTitle(step)}${target}: ` +
+        (step.skipped ? `skipped (${step.skipped})` : command)
+    )
+    return [
+      String(i + 1),
+      stepTitle(step),
+      step.deployment || '',
+      step.skipped ? '' : `<code>${command}</code>`,
+      step.skipped ? `Skipped: ${step.skipped}` : 'Will run'
+    ]
+  })
+
+  await core.summary
+    .addHeading('ROFL execution plan')
+    .addRaw(`Oasis CLI version: <code>${plan.cliVersion}</code>`, true)
+    .addTable([
+      [
+        { data: '#', header: true },
+        { data: 'Step', header: true },
+        { data: 'Deployment', header: true },
+        { data: 'Command', header: true },
+        { data: 'Status', header: true }
+      ],
+      ...rows
+    ])
+    .write()
+
+  core.setOutput('plan', JSON.stringify(planToJSON(plan)))
+}
+
+/**
+ * Fill in the network and wallet account of each deployment when the network
+ * and wallet_account inputs are not set, from its rofl.yaml entry (network and
+ * admin) or the defaults, and log where each value came from
+ * @throws Error if wallet_import would need one account for deployments with
+ *   different admins
+ */
+function applyManifestDefaults(
+  inputs: ActionInputs,
+  loaded: LoadedManifest | null
+): void {
+  const deployments = selectDeployments(inputs)
+  const networks: Record<string, string> = {}
+  const accounts: Record<string, string> = {}
+
+  if (inputs.network) {
+    core.info(`Using network ${inputs.network} from the network input`)
+  }
+  if (inputs.walletAccount) {
+    core.info(
+      `Using wallet account ${inputs.walletAccount} from the wallet_account input`
+    )
+  }
+
+  for (const name of deployments) {
+    const from = `${loaded?.file} deployment ${name}`
+
+    if (inputs.network) {
+      networks[name] = inputs.network
+    } else {
+      const network =
+        loaded && deploymentValue(loaded.manifest, [name], 'network')
+      networks[name] = network || DEFAULT_NETWORK
+      core.info(
+        network
+          ? `Using network ${network} from ${from}`
+          : `Using default network ${DEFAULT_NETWORK} for deployment ${name}`
+      )
+    }
+
+    if (inputs.walletAccount) {
+      accounts[name] = inputs.walletAccount
+    } else {
+      // admin may also be an address, which can't be used as a CLI account name
+      const admin = loaded && deploymentValue(loaded.manifest, [name], 'admin')
+      if (admin && !/^(oasis1|0x)/.test(admin)) {
+        accounts[name] = admin
+        core.info(`Using wallet account ${admin} (admin) from ${from}`)
+      } else {
+        accounts[name] = DEFAULT_WALLET_ACCOUNT
+        core.info(
+          `Using default wallet account ${DEFAULT_WALLET_ACCOUNT} for deployment ${name}`
+        )
+      }
+    }
+  }
+
+  // wallet_secret is imported as a single account
+  const distinctAccounts = [...new Set(Object.values(accounts))]
+  if (inputs.walletImport && distinctAccounts.length > 1) {
+    throw new Error(
+      `wallet_account: deployments ${deployments.join(', ')} have different ` +
+        `admin accounts (${distinctAccounts.join(', ')}). Set wallet_account ` +
+        'to the account wallet_secret is imported as.'
+    )
+  }
+
+  inputs.deploymentNetworks = networks
+  inputs.deploymentAccounts = accounts
+  // Shared values, for the wallet setup steps and the run summary
+  inputs.network ||= [...new Set(Object.values(networks))].join(', ')
+  inputs.walletAccount ||= distinctAccounts[0]
+}
+
+/**
+ * Check rofl.yaml against the plan before installing the CLI or building
+ * @throws Error listing every problem found in the manifest
+ */
+function checkManifest(
+  inputs: ActionInputs,
+  plan: ExecutionPlan,
+  loaded: LoadedManifest | null,
+  networkInput: string
+): void {
+  if (!loaded) {
+    core.warning(
+      'No rofl.yaml or rofl.yml found in working directory, skipping manifest validation'
+    )
+    return
+  }
+
+  const errors = validateManifest(loaded.manifest, {
+    deployments: plan.deployments,
+    network: networkInput,
+    requireAppId: plan.steps.some(
+      (step) => (step.id === 'update' || step.id === 'deploy') && !step.skipped
+    )
+  })
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid ${loaded.file}:\n${errors.map((e) => `  - ${e}`).join('\n')}`
+    )
+  }
+  core.info(
+    `Validated ${loaded.file} for deployment(s): ${plan.deployments.join(', ')}`
+  )
+}
+
+/**
+ * Report an enclave ID mismatch: side-by-side diff in the job summary and an
+ * error annotation on the manifest
+ * @param output - Captured rofl build output
+ */
+async function reportEnclaveMismatch(
+  deployment: string,
+  output: string,
+  manifest: LoadedManifest
+): Promise<void> {
+  const expected = expectedEnclaveIds(manifest.manifest, deployment)
+  const diff = diffEnclaveIds(expected, builtEnclaveIds(output))
+
+  let manifestText = ''
+  try {
+    manifestText = fs.readFileSync(manifest.file, 'utf8')
+  } catch (error) {
+    core.debug(`Failed to read ${manifest.file}: ${error}`)
+  }
+  // Annotation paths are relative to the repository root, not working_directory
+  core.error(formatMismatch(manifest.file, deployment, diff), {
+    title: 'Enclave ID mismatch',
+    file: repositoryPath(
+      manifest.file,
+      process.env.GITHUB_WORKSPACE || process.cwd()
+    ),
+    startLine: annotationLine(manifestText || '', expected)
+  })
+
+  await core.summary
+    .addHeading('Enclave ID mismatch', 2)
+    .addRaw(
+      `The enclave IDs built for deployment <code>${deployment}</code> ` +
+        `do not match <code>${manifest.file}</code>.`,
+      true
+    )
+    .addTable([
+      [
+        { data: `Expected (${manifest.file})`, header: true },
+        { data: 'Actual (build)', header: true },
+        { data: 'Status', header: true }
+      ],
+      ...sideBySide(diff).map(([want, got]) => [
+        want ? `<code>${want}</code>` : '',
+        got ? `<code>${got}</code>` : '',
+        want === got
+          ? 'Match'
+          : want && got
+            ? 'Changed'
+            : want
+              ? 'Missing'
+              : 'New'
+      ])
+    ])
+    .addRaw(mismatchHint(manifest.file, deployment), true)
+    .write()
+}
+
+/**
+ * Run rofl build, capturing its output to explain verification failures
+ * @returns The build output
+ */
+async function runBuild(step: PlanStep, context: StepContext): Promise<string> {
+  const { manifest } = context
+  // Hashed before the build, which may write new enclave IDs to rofl.yaml
+  const manifestFile = manifest?.file || 'rofl.yaml'
+  context.manifestDigest = fs.existsSync(manifestFile)
+    ? fileDigest(manifestFile)
+    : undefined
+  let output = ''
+  const capture = (data: Buffer): void => {
+    output += data.toString()
+  }
+  const exitCode = await exec.exec(step.command, step.args, {
+    ignoreReturnCode: true,
+    listeners: { stdout: capture, stderr: capture }
+  })
+  context.buildOutput = output
+  if (exitCode === 0) {
+    return output
+  }
+
+  const deployment = step.deployment || DEFAULT_DEPLOYMENT
+  if (manifest && isVerificationFailure(output)) {
+    await reportEnclaveMismatch(deployment, output, manifest)
+    throw new Error(
+      `Enclave ID verification failed for deployment ${deployment}. ` +
+        'See the job summary for the expected and actual enclave IDs.'
+    )
+  }
+  throw new Error(`oasis rofl build failed with exit code ${exitCode}`)
+}
+
+/**
+ * Reread rofl.yaml, which build and deploy update with enclave IDs and machine
+ * details
+ */
+function reloadManifest(): RoflManifest | undefined {
+  try {
+    return loadManifest()?.manifest
+  } catch (error) {
+    core.warning(
+      `Failed to reread rofl.yaml: ${error instanceof Error ? error.message : error}`
+    )
+    return undefined
+  }
+}
+
+/**
+ * Copy the app ID and machine details that are set into the result
+ */
+function recordDetails(
+  result: DeploymentResult,
+  details: DeploymentDetails
+): void {
+  for (const [key, value] of Object.entries(details)) {
+    if (value) {
+      result[key as keyof DeploymentDetails] = value
+    }
+  }
+}
+
+/**
+ * State shared by the steps of a run
+ */
+interface StepContext {
+  inputs: ActionInputs
+  // Directory holding the runtime SDK dependencies for Safe proposals
+  workspaceDir: string
+  // rofl.yaml as validated before the run, to explain enclave ID verification
+  // failures
+  manifest: LoadedManifest | null
+  cli: InstalledCLI
+  // Output of the last rofl build, for build failure reports
+  buildOutput?: string
+  // Digest of rofl.yaml when the last rofl build started, for provenance
+  manifestDigest?: string
+  // Networks Safe proposals can target
+  safeNetworks?: NetworkRegistry
+  // Decoded calls of the Safe proposals by deployment, for the job summary
+  safePreviews?: Record<string, CallPreview[]>
+}
+
+/**
+ * Record what a build produced: the bundle and its digest, provenance and
+ * in-toto statement, the enclave IDs and the app ID
+ * @param output - Captured rofl build output
+ */
+function recordBuild(
+  step: PlanStep,
+  output: string,
+  result: DeploymentResult,
+  context: StepContext
+): void {
+  const deployment = step.deployment || DEFAULT_DEPLOYMENT
+  const updated = reloadManifest()
+  const bundle = discoverBundle(output, updated, deployment)
+  if (!result.build_output && bundle) {
+    result.build_output = bundle
+  }
+  const enclaveIds = buildEnclaveIds(output, updated, deployment)
+  if (enclaveIds.length > 0) {
+    result.enclave_ids = enclaveIds
+  }
+  if (updated) {
+    recordDetails(result, {
+      app_id: deploymentDetails(updated, deployment).app_id
+    })
+  }
+
+  if (!result.build_output || !fs.existsSync(result.build_output)) {
+    core.debug('No bundle found, skipping bundle digest and provenance')
+    return
+  }
+  result.bundle_digest = fileDigest(result.build_output)
+  core.info(`Bundle digest: ${result.bundle_digest}`)
+
+  const manifestFile = context.manifest?.file || 'rofl.yaml'
+  result.provenance_file = writeProvenance({
+    bundle: result.build_output,
+    bundle_digest: result.bundle_digest,
+    deployment,
+    cli_version: context.cli.version,
+    git_commit: process.env.GITHUB_SHA,
+    manifest: manifestFile,
+    manifest_digest: context.manifestDigest,
+    enclave_ids: result.enclave_ids ?? [],
+    builder: context.inputs.noContainer ? 'no_container' : 'container',
+    workflow_run: workflowRun(),
+    created_at: new Date().toISOString()
+  })
+  core.info(`Build provenance written to ${result.provenance_file}`)
+
+  if (context.inputs.attestBundle) {
+    result.attestation_file = writeStatement(
+      result.build_output,
+      buildStatement({
+        bundle: result.build_output,
+        bundleDigest: result.bundle_digest,
+        deployment,
+        inputs: redactInputs(context.inputs),
+        cli: context.cli
+      })
+    )
+    core.info(`In-toto statement written to ${result.attestation_file}`)
+  }
+}
+
+/**
+ * Execute a single plan step
+ * @param step - Step to run
+ * @param result - Results of the step's deployment, updated with the files
+ *   and Safe transaction hash it produces
+ * @param context - State shared by the steps
+ */
+async function executeStep(
+  step: PlanStep,
+  result: DeploymentResult,
+  context: StepContext
+): Promise<void> {
+  const { inputs, workspaceDir } = context
+  if (step.skipped) {
+    core.debug(`Skipping ${stepTitle(step)}: ${step.skipped}`)
+    if (step.id in OUTPUT_KEYS) {
+      core.info(`Skipping ${stepTitle(step)} step`)
+    }
+    return
+  }
+
+  switch (step.id) {
+    case 'build-deps':
+      // Soft-fail if sudo/apt is unavailable
+      core.info('Installing ROFL build dependencies...')
+      try {
+        await exec.exec('sudo', ['apt-get', 'update', '-qq'])
+        await exec.exec(step.command, step.args)
+      } catch {
+        core.warning(
+          'Failed to install build dependencies via apt-get. ' +
+            'If running in a container or on a non-Debian system, ' +
+            'ensure these packages are pre-installed: ' +
+            'squashfs-tools, fakeroot, cryptsetup-bin, qemu-utils'
+        )
+      }
+      return
+
+    case 'safe-deps':
+      // Install SDK dependencies at runtime in the workspace
+      // We use the workspace dir and pass it to createRequire for module resolution
+      core.info(
+        `Installing Safe and Oasis SDK dependencies in ${workspaceDir}...`
+      )
+      await exec.exec(step.command, step.args)
+      return
+
+    case 'safe-propose': {
+      const safeInputs: SafeInputs = {
+        safePropose: true,
+        safeAddress: inputs.safeAddress,
+        safeProposerKey: inputs.safeProposerKey,
+        safeRpcUrl: inputs.safeRpcUrl,
+        safeServiceUrl: inputs.safeServiceUrl,
+        safeChainId: inputs.safeChainId,
+        grpcUrl: '', // Will use network defaults
+        deployment: step.deployment || '',
+        dryRun: inputs.safeDryRun,
+        networks: context.safeNetworks,
+        export: inputs.safeExport
+      }
+      // Pass workspace dir so SDKs can be loaded via createRequire
+      const proposal = await runSafeProposal(
+        safeInputs,
+        step.txFiles || {},
+        step.network || inputs.network, // Network config lookup
+        workspaceDir
+      )
+      if (proposal) {
+        result.safe_tx_hash = proposal.safeTxHash
+        result.safe_batch_file = proposal.batchFile
+        result.safe_preview_file = proposal.previewFile
+        context.safePreviews ??= {}
+        context.safePreviews[step.deployment || DEFAULT_DEPLOYMENT] =
+          proposal.previews
+      }
+      return
+    }
+
+    default: {
+      core.debug(
+        `Running ${stepTitle(step)}: ${step.command} ${redactArgs(step.args).join(' ')}`
+      )
+      let output = ''
+      if (step.id === 'build') {
+        output = await runBuild(step, context)
+      } else {
+        await exec.exec(step.command, step.args)
+      }
+      const key = OUTPUT_KEYS[step.id]
+      if (step.outputFile && key) {
+        result[key] = step.outputFile
+      }
+
+      // Discover the bundle, enclave IDs, app ID and machine from the output
+      // and the updated rofl.yaml
+      if (step.id === 'build') {
+        recordBuild(step, output, result, context)
+      } else if (step.id === 'deploy') {
+        const updated = reloadManifest()
+        if (updated) {
+          recordDetails(
+            result,
+            deploymentDetails(
+              updated,
+              step.deployment || DEFAULT_DEPLOYMENT,
+              inputs.machine || DEFAULT_MACHINE
+            )
+          )
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Build the upgraded manifest with manifest updates allowed, which records the
+ * new enclave IDs in rofl.yaml
+ * @param records - Build steps of the app, after build-deps if it hasn't run
+ * @param onFailure - Reports a failed build, returns where it was reported
+ * @returns The enclave IDs built for each deployment
+ * @throws Error if a build fails, after reporting it
+ */
+async function validateUpgrade(
+  inputs: ActionInputs,
+  records: StepRecord[],
+  results: Record<string, DeploymentResult>,
+  cli: InstalledCLI,
+  onFailure: (deployment: string, log: string) => Promise<string | undefined>
+): Promise<Record<string, string[]>> {
+  core.info('Building the upgraded manifest...')
+  const context: StepContext = {
+    inputs,
+    workspaceDir: process.cwd(),
+    manifest: null,
+    cli
+  }
+  for (const record of records) {
+    const { step } = record
+    if (step.deployment) {
+      results[step.deployment] ??= {}
+    }
+    try {
+      await recordStep(record, () =>
+        executeStep(
+          step,
+          step.deployment ? results[step.deployment] : {},
+          context
+        )
+      )
+    } catch (error) {
+      const deployment = step.deployment || DEFAULT_DEPLOYMENT
+      const message = error instanceof Error ? error.message : String(error)
+      const reported = await onFailure(
+        deployment,
+        context.buildOutput || message
+      )
+      throw new Error(
+        `The upgraded manifest failed to build for deployment ${deployment}` +
+          `${step.app ? ` of ${step.app}` : ''}: ${message}` +
+          (reported ? ` Reported in ${reported}` : '')
+      )
+    }
+  }
+  return Object.fromEntries(
+    records
+      .filter((record) => record.step.id === 'build')
+      .map(({ step }) => step.deployment || DEFAULT_DEPLOYMENT)
+      .map((name) => [name, results[name]?.enclave_ids ?? []])
+  )
+}
+
+/**
+ * Build the Safe network registry from the built-in networks, the Oasis CLI
+ * config and the networks file
+ * @throws Error if a source is invalid or the registry lacks the network of a
+ *   deployment
+ */
+function loadSafeNetworks(inputs: ActionInputs): NetworkRegistry {
+  const networks = loadNetworkRegistry({
+    file: inputs.safeNetworksFile || undefined,
+    cliConfig: inputs.safeCliNetworks
+      ? inputs.config || cliConfigPath()
+      : undefined
+  })
+  const deploymentNetworks = inputs.deploymentNetworks
+    ? Object.values(inputs.deploymentNetworks)
+    : [inputs.network]
+  for (const network of new Set(deploymentNetworks)) {
+    getNetwork(networks, network)
+  }
+  return networks
+}
+
+/**
+ * Find the app directories matched by manifest_glob
+ * @throws Error if no manifest matches
+ */
+function findApps(pattern: string): string[] {
+  const apps = [
+    ...new Set(findManifests(pattern).map((file) => path.dirname(file)))
+  ]
+  if (apps.length === 0) {
+    throw new Error(`manifest_glob: no manifests match "${pattern}"`)
+  }
+  return apps
+}
+
+/**
+ * Run a function in an app directory, returning to the working directory after
+ * @param app - App directory, undefined for the working directory itself
+ */
+async function inDirectory<T>(
+  app: string | undefined,
+  fn: () => Promise<T>
+): Promise<T> {
+  if (!app) {
+    return fn()
+  }
+  const cwd = process.cwd()
+  process.chdir(app)
+  try {
+    return await fn()
+  } finally {
+    process.chdir(cwd)
+  }
+}
+
+interface UpgradeOutcome {
+  update: AppUpdate
+  // Whether oasis rofl upgrade changed the manifest files
+  changed: boolean
+}
+
+/**
+ * Run oasis rofl upgrade in the current directory and compare the manifest
+ * with the one before the upgrade
+ */
+async function upgradeApp(record: StepRecord): Promise<UpgradeOutcome> {
+  const { step } = record
+  const app = step.app
+  const before = reloadManifest()
+  await recordStep(record, async () => {
+    await exec.exec(step.command, step.args)
+  })
+
+  // Check if rofl.yaml or rofl.yml changed
+  // First determine which file(s) exist to avoid false positives
+  const manifestFiles = MANIFEST_FILES.filter((file) => fs.existsSync(file))
+  if (manifestFiles.length === 0) {
+    core.warning(
+      `No rofl.yaml or rofl.yml found in ${app ?? 'working directory'}`
+    )
+    return { update: { app, files: [], changes: [] }, changed: false }
+  }
+
+  const diffResult = await exec.exec(
+    'git',
+    ['diff', '--exit-code', '--', ...manifestFiles],
+    { ignoreReturnCode: true }
+  )
+  // git diff --exit-code returns 1 if there are changes, 0 if no changes
+  const changed = diffResult !== 0
+  const after = changed ? reloadManifest() : undefined
+  return {
+    update: {
+      app,
+      files: manifestFiles.map((file) => (app ? path.join(app, file) : file)),
+      changes: before && after ? diffArtifacts(before, after) : [],
+      manifest: after
+    },
+    changed
+  }
+}
+
+/**
+ * Open the update PR for some apps, or refresh the open one
+ * @returns The PR URL
+ */
+async function openUpdatePr(
+  client: UpdatePrClient,
+  settings: UpdatePrSettings,
+  updates: AppUpdate[]
+): Promise<string> {
+  const files = updates.flatMap((update) => update.files)
+  const body = updatePrBody(updates)
+
+  const existing = await client.find(settings)
+  if (existing) {
+    core.info(`An open PR already exists: ${existing.url}`)
+
+    // Push newer upgrades onto the PR instead of leaving it stale
+    const branchState = await client.compare(existing.branch, files)
+    if (branchState && !branchState.changed) {
+      core.info('The pull request is already up to date')
+      return existing.url
+    }
+    // The branch manifest is only compared for a single app, several apps
+    // list all their changes
+    const [update] = updates
+    const sinceRefresh =
+      updates.length === 1 && branchState?.manifest && update.manifest
+        ? diffArtifacts(branchState.manifest, update.manifest)
+        : allChanges(updates)
+    await client.push(settings, existing.branch, files)
+    await client.refresh(existing, body, refreshComment(sinceRefresh))
+    core.info(`Pull request refreshed: ${existing.url}`)
+    return existing.url
+  }
+
+  const branch = updateBranch(settings.branchPrefix)
+  await client.push(settings, branch, files)
+  const prUrl = await client.create(settings, branch, body)
+  core.info(`Pull request created: ${prUrl}`)
+  return prUrl
+}
+
+/**
+ * Run oasis rofl upgrade in the working directory, or in every app matched by
+ * manifest_glob, and, when a manifest changes, optionally build the upgraded
+ * manifest and open or refresh the update PR
+ */
+async function runUpdateCheck(
+  inputs: ActionInputs,
+  report: RunReport,
+  cli: InstalledCLI
+): Promise<void> {
+  core.info('Checking for rofl.yaml updates...')
+  const glob = Boolean(inputs.manifestGlob)
+  const upgrades = report.steps.filter((record) => record.step.id === 'upgrade')
+  const builds = report.steps.filter((record) => record.step.id !== 'upgrade')
+  const appBuilds = (app?: string) =>
+    builds.filter(
+      (record) => record.step.id === 'build' && record.step.app === app
+    )
+
+  // Run oasis rofl upgrade, keeping the old manifest to report changes
+  const outcomes: UpgradeOutcome[] = []
+  for (const record of upgrades) {
+    outcomes.push(await inDirectory(record.step.app, () => upgradeApp(record)))
+  }
+  const changed = outcomes
+    .filter((outcome) => outcome.changed)
+    .map((outcome) => outcome.update)
+
+  core.setOutput('updates_available', changed.length > 0 ? 'true' : 'false')
+  core.setOutput(
+    'updated_artifacts',
+    JSON.stringify(allChanges(outcomes.map((outcome) => outcome.update)))
+  )
+  if (glob) {
+    core.setOutput(
+      'updated_apps',
+      JSON.stringify(changed.map((update) => update.app))
+    )
+  }
+
+  if (changed.length === 0) {
+    core.info(
+      glob
+        ? 'No updates available for any app'
+        : 'No updates available for rofl.yaml'
+    )
+    skipSteps(
+      builds,
+      outcomes.some((outcome) => outcome.update.files.length > 0)
+        ? 'no updates available'
+        : 'no rofl.yaml found'
+    )
+    return
+  }
+  for (const outcome of outcomes) {
+    if (!outcome.changed) {
+      skipSteps(appBuilds(outcome.update.app), 'no updates available')
+    }
+  }
+
+  for (const update of changed) {
+    core.info(`Updates available for ${update.app ?? 'rofl.yaml'}`)
+    for (const change of update.changes) {
+      core.info(
+        `  ${change.artifact}: ${change.old?.version ?? change.old?.uri ?? 'none'} -> ` +
+          `${change.new?.version ?? change.new?.uri ?? 'none'}`
+      )
+    }
+  }
+
+  const settings = updatePrSettings(inputs)
+  const client: UpdatePrClient | undefined = !inputs.createUpdatePr
+    ? undefined
+    : inputs.updatePrMethod === 'api' && inputs.githubToken
+      ? apiClient(apiClientOptions(inputs.githubToken))
+      : ghClient
+
+  // Only propose artifacts that build. Failures are reported in an issue per
+  // app instead of a PR, and the other apps are still proposed.
+  const updates: AppUpdate[] = []
+  const failures: string[] = []
+  for (const update of changed) {
+    if (!inputs.validateUpdate) {
+      updates.push(update)
+      continue
+    }
+    // Build dependencies are installed before the first app is built
+    const deps = builds.filter(
+      (record) => record.step.id === 'build-deps' && record.status === 'pending'
+    )
+    try {
+      update.enclaveIds = await inDirectory(update.app, () =>
+        validateUpgrade(
+          inputs,
+          [...deps, ...appBuilds(update.app)],
+          glob ? {} : report.results,
+          cli,
+          async (deployment, log) => {
+            if (!client) {
+              return undefined
+            }
+            const issueUrl = await client.report(
+              settings,
+              update.app
+                ? `${BUILD_FAILURE_TITLE} (${update.app})`
+                : BUILD_FAILURE_TITLE,
+              buildFailureBody(update, deployment, log, workflowRun().url)
+            )
+            core.setOutput('update_issue_url', issueUrl)
+            return issueUrl
+          }
+        )
+      )
+      updates.push(update)
+    } catch (error) {
+      failures.push(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  if (client && updates.length > 0) {
+    core.info('Creating pull request with updates...')
+    if (glob && inputs.updatePrMode === 'per-app') {
+      const urls: Record<string, string> = {}
+      for (const update of updates) {
+        const app = update.app ?? '.'
+        urls[app] = await openUpdatePr(
+          client,
+          {
+            ...settings,
+            branchPrefix: appBranchPrefix(settings.branchPrefix, app),
+            title: `${settings.title} (${app})`
+          },
+          [update]
+        )
+      }
+      core.setOutput('update_pr_urls', JSON.stringify(urls))
+    } else {
+      const prUrl = await openUpdatePr(client, settings, updates)
+      core.setOutput('update_pr_url', prUrl)
+      if (glob) {
+        core.setOutput(
+          'update_pr_urls',
+          JSON.stringify(
+            Object.fromEntries(updates.map((update) => [update.app, prUrl]))
+          )
+        )
+      }
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(failures.join('\n'))
+  }
+}
 
 /**
  * The main function for the action.
@@ -15,72 +935,12 @@ import { installOasisCLI } from './cli.js'
  * @returns Resolves when the action is complete.
  */
 export async function run(): Promise<void> {
+  // Set once the plan is built, written to the job summary when the run ends
+  let report: RunReport | undefined
   try {
-    // Collect all inputs
-    const inputs = {
-      // CLI version
-      cliVersion: core.getInput('cli_version'),
-
-      // Auto-update feature
-      checkUpdates: core.getInput('check_updates') === 'true',
-      createUpdatePr: core.getInput('create_update_pr') === 'true',
-
-      // Existing ROFL inputs
-      config: core.getInput('config'),
-      deployment: core.getInput('deployment'),
-      encrypted: core.getInput('encrypted') === 'true',
-      feeDenom: core.getInput('fee_denom'),
-      force: core.getInput('force') === 'true',
-      format: core.getInput('format'),
-      gasLimit: core.getInput('gas_limit'),
-      gasPrice: core.getInput('gas_price'),
-      machine: core.getInput('machine'),
-      network: core.getInput('network'),
-      noContainer: core.getInput('no_container') === 'true',
-      noUpdateManifest: core.getInput('no_update_manifest') === 'true',
-      updateManifest: core.getInput('update_manifest') === 'true',
-      nonce: core.getInput('nonce'),
-      offer: core.getInput('offer'),
-      offline: core.getInput('offline') === 'true',
-      onlyValidate: core.getInput('only_validate') === 'true',
-      output: core.getInput('output'),
-      outputFile: core.getInput('output_file'),
-      provider: core.getInput('provider'),
-      replaceMachine: core.getInput('replace_machine') === 'true',
-      showOffers: core.getInput('show_offers') === 'true',
-      term: core.getInput('term'),
-      termCount: core.getInput('term_count'),
-      unsigned: core.getInput('unsigned') === 'true',
-      verbose: core.getInput('verbose') === 'true',
-      verify: core.getInput('verify') === 'true',
-      walletAccount: core.getInput('wallet_account'),
-      walletImport: core.getInput('wallet_import') === 'true',
-      walletAlgorithm: core.getInput('wallet_algorithm'),
-      walletNumber: core.getInput('wallet_number'),
-      walletSecret: core.getInput('wallet_secret'),
-      wipeStorage: core.getInput('wipe_storage') === 'true',
-      workingDirectory: core.getInput('working_directory'),
-
-      // Skip flags
-      skipBuild: core.getInput('skip_build') === 'true',
-      skipUpdate: core.getInput('skip_update') === 'true',
-      skipDeploy: core.getInput('skip_deploy') === 'true',
-
-      // Separate output files
-      updateOutputFile: core.getInput('update_output_file'),
-      deployOutputFile: core.getInput('deploy_output_file'),
-
-      // Safe inputs (enabled automatically when safe_address is provided)
-      safeAddress: core.getInput('safe_address'),
-      safeProposerKey: core.getInput('safe_proposer_key'),
-      safeRpcUrl: core.getInput('safe_rpc_url'),
-      safeServiceUrl: core.getInput('safe_service_url'),
-      safeChainId: core.getInput('safe_chain_id'),
-      safeDryRun: core.getInput('safe_dry_run') === 'true'
-    }
-    core.debug(
-      `Collected inputs: ${JSON.stringify({ ...inputs, safeProposerKey: '***', walletSecret: '***' })}`
-    )
+    // Collect and validate all inputs before any side effects
+    const inputs = getInputs()
+    core.debug(`Collected inputs: ${JSON.stringify(redactInputs(inputs))}`)
 
     // Switch to working directory if set
     if (inputs.workingDirectory) {
@@ -98,26 +958,7 @@ export async function run(): Promise<void> {
       core.debug(`Changed working directory to: ${absDir}`)
     }
 
-    // Build oasis wallet import command (sorted alphabetically after --yes)
-    const walletImportArgs = [
-      'wallet',
-      'import',
-      inputs.walletAccount,
-      '--yes',
-      ...(inputs.walletAlgorithm
-        ? ['--algorithm', inputs.walletAlgorithm]
-        : []),
-      ...(inputs.config ? ['--config', inputs.config] : []),
-      ...(inputs.walletNumber ? ['--number', inputs.walletNumber] : []),
-      ...(inputs.walletSecret ? ['--secret', inputs.walletSecret] : [])
-    ]
-    // Log wallet args with secret redacted
-    const redactedWalletArgs = walletImportArgs.map((arg, i) =>
-      walletImportArgs[i - 1] === '--secret' ? '***' : arg
-    )
-    core.debug(`Built walletImportArgs: ${redactedWalletArgs.join(' ')}`)
-
-    // Validate and configure Safe mode BEFORE building args
+    // Configure Safe mode BEFORE building the plan
     // Safe mode requires offline transaction generation (no live broadcasts)
     if (inputs.safeAddress) {
       // Enforce unsigned mode - transactions must be proposed to Safe, not signed
@@ -133,30 +974,6 @@ export async function run(): Promise<void> {
         core.info('Safe mode: automatically setting format to cbor')
         inputs.format = 'cbor'
       }
-
-      // Require output file for update transactions (unless skipping update)
-      if (
-        !inputs.skipUpdate &&
-        !inputs.updateOutputFile &&
-        !inputs.outputFile
-      ) {
-        throw new Error(
-          'Safe mode requires update_output_file (or output_file) when update is enabled. ' +
-            'This file will contain the unsigned CBOR transaction for Safe proposal.'
-        )
-      }
-
-      // Require output file for deploy transactions (unless skipping deploy)
-      if (
-        !inputs.skipDeploy &&
-        !inputs.deployOutputFile &&
-        !inputs.outputFile
-      ) {
-        throw new Error(
-          'Safe mode requires deploy_output_file (or output_file) when deploy is enabled. ' +
-            'This file will contain the unsigned CBOR transaction for Safe proposal.'
-        )
-      }
     }
 
     // Warn if update_manifest is enabled (testing mode)
@@ -167,354 +984,106 @@ export async function run(): Promise<void> {
       )
     }
 
-    // Build oasis rofl build command
-    // By default, use --verify to fail if enclave IDs don't match
-    // If update_manifest is true, skip verify and allow manifest updates
-    const shouldVerify = !inputs.updateManifest && !inputs.onlyValidate
-    const buildArgs = [
-      'rofl',
-      'build',
-      ...(inputs.config ? ['--config', inputs.config] : []),
-      ...(inputs.deployment ? ['--deployment', inputs.deployment] : []),
-      ...(inputs.force ? ['--force'] : []),
-      ...(inputs.noContainer ? ['--no-container'] : []),
-      ...(inputs.noUpdateManifest && !inputs.updateManifest
-        ? ['--no-update-manifest']
-        : []),
-      ...(inputs.offline ? ['--offline'] : []),
-      ...(inputs.onlyValidate ? ['--only-validate'] : []),
-      ...(inputs.output ? ['--output', inputs.output] : []),
-      ...(inputs.verbose ? ['--verbose'] : []),
-      ...(shouldVerify || inputs.verify ? ['--verify'] : [])
-    ]
-    core.debug(`Built buildArgs: ${buildArgs.join(' ')}`)
-
-    // Build oasis rofl update command
-    // Use separate update_output_file if provided, otherwise fall back to output_file
-    const updateOutputFile = inputs.updateOutputFile || inputs.outputFile
-    const updateArgs = [
-      'rofl',
-      'update',
-      '--yes',
-      ...(inputs.walletAccount ? ['--account', inputs.walletAccount] : []),
-      ...(inputs.config ? ['--config', inputs.config] : []),
-      ...(inputs.deployment ? ['--deployment', inputs.deployment] : []),
-      ...(inputs.encrypted ? ['--encrypted'] : []),
-      ...(inputs.feeDenom ? ['--fee-denom', inputs.feeDenom] : []),
-      ...(inputs.format ? ['--format', inputs.format] : []),
-      ...(inputs.gasLimit ? ['--gas-limit', inputs.gasLimit] : []),
-      ...(inputs.gasPrice ? ['--gas-price', inputs.gasPrice] : []),
-      ...(inputs.nonce ? ['--nonce', inputs.nonce] : []),
-      ...(inputs.offline ? ['--offline'] : []),
-      ...(updateOutputFile ? ['--output-file', updateOutputFile] : []),
-      ...(inputs.unsigned ? ['--unsigned'] : [])
-    ]
-    core.debug(`Built updateArgs: ${updateArgs.join(' ')}`)
-
-    // Build oasis rofl deploy command
-    // Use separate deploy_output_file if provided, otherwise fall back to output_file
-    const deployOutputFile = inputs.deployOutputFile || inputs.outputFile
-    const deployArgs = [
-      'rofl',
-      'deploy',
-      '--yes',
-      ...(inputs.walletAccount ? ['--account', inputs.walletAccount] : []),
-      ...(inputs.config ? ['--config', inputs.config] : []),
-      ...(inputs.deployment ? ['--deployment', inputs.deployment] : []),
-      ...(inputs.encrypted ? ['--encrypted'] : []),
-      ...(inputs.feeDenom ? ['--fee-denom', inputs.feeDenom] : []),
-      ...(inputs.force ? ['--force'] : []),
-      ...(inputs.format ? ['--format', inputs.format] : []),
-      ...(inputs.gasLimit ? ['--gas-limit', inputs.gasLimit] : []),
-      ...(inputs.gasPrice ? ['--gas-price', inputs.gasPrice] : []),
-      ...(inputs.machine ? ['--machine', inputs.machine] : []),
-      ...(inputs.nonce ? ['--nonce', inputs.nonce] : []),
-      ...(inputs.offer ? ['--offer', inputs.offer] : []),
-      ...(inputs.offline ? ['--offline'] : []),
-      ...(deployOutputFile ? ['--output-file', deployOutputFile] : []),
-      ...(inputs.provider ? ['--provider', inputs.provider] : []),
-      ...(inputs.replaceMachine ? ['--replace-machine'] : []),
-      ...(inputs.showOffers ? ['--show-offers'] : []),
-      ...(inputs.term ? ['--term', inputs.term] : []),
-      ...(inputs.termCount ? ['--term-count', inputs.termCount] : []),
-      ...(inputs.unsigned ? ['--unsigned'] : []),
-      ...(inputs.wipeStorage ? ['--wipe-storage'] : [])
-    ]
-    core.debug(`Built deployArgs: ${deployArgs.join(' ')}`)
+    // The update check runs oasis rofl upgrade, which doesn't need a
+    // deployment, so the manifest is only read for build/update/deploy
+    const manifest = inputs.checkUpdates ? null : loadManifest()
+    const networkInput = inputs.network
+    applyManifestDefaults(inputs, manifest)
 
-    // Step 1: Install Oasis CLI
-    await installOasisCLI(inputs.cliVersion)
-
-    // Step 1.5: Check for updates (if enabled)
-    if (inputs.checkUpdates) {
-      core.info('Checking for rofl.yaml updates...')
-
-      // Run oasis rofl upgrade
-      const upgradeArgs = [
-        'rofl',
-        'upgrade',
-        ...(inputs.deployment ? ['--deployment', inputs.deployment] : [])
-      ]
-      await exec.exec('oasis', upgradeArgs)
-
-      // Check if rofl.yaml or rofl.yml changed
-      // First determine which file(s) exist to avoid false positives
-      const manifestFiles: string[] = []
-      if (fs.existsSync('rofl.yaml')) manifestFiles.push('rofl.yaml')
-      if (fs.existsSync('rofl.yml')) manifestFiles.push('rofl.yml')
-
-      if (manifestFiles.length === 0) {
-        core.warning('No rofl.yaml or rofl.yml found in working directory')
-        core.setOutput('updates_available', 'false')
-        return
-      }
-
-      let hasChanges = false
-      const diffResult = await exec.exec(
-        'git',
-        ['diff', '--exit-code', '--', ...manifestFiles],
-        { ignoreReturnCode: true }
+    const apps = inputs.manifestGlob ? findApps(inputs.manifestGlob) : undefined
+    const plan = buildPlan(inputs, process.platform, apps)
+    for (const step of plan.steps) {
+      core.debug(
+        `Planned ${step.id}: ${step.command} ${redactArgs(step.args).join(' ')}`
       )
-      // git diff --exit-code returns 1 if there are changes, 0 if no changes
-      hasChanges = diffResult !== 0
-
-      core.setOutput('updates_available', hasChanges ? 'true' : 'false')
-
-      if (!hasChanges) {
-        core.info('No updates available for rofl.yaml')
-        return
-      }
-
-      core.info('Updates available for rofl.yaml')
-
-      if (inputs.createUpdatePr) {
-        core.info('Creating pull request with updates...')
-
-        // Check if an open PR already exists for ROFL updates
-        let existingPrUrl = ''
-        await exec.exec(
-          'gh',
-          [
-            'pr',
-            'list',
-            '--state',
-            'open',
-            '--search',
-            'chore: update ROFL artifacts in:title',
-            '--json',
-            'url',
-            '--jq',
-            '.[0].url // empty'
-          ],
-          {
-            ignoreReturnCode: true,
-            listeners: {
-              stdout: (data: Buffer) => {
-                existingPrUrl += data.toString().trim()
-              }
-            }
-          }
-        )
-
-        if (existingPrUrl) {
-          core.info(`An open PR already exists: ${existingPrUrl}`)
-          core.setOutput('update_pr_url', existingPrUrl)
-          core.setOutput('updates_available', 'true')
-          return
-        }
+    }
 
-        // Configure git
-        await exec.exec('git', ['config', 'user.name', 'github-actions[bot]'])
-        await exec.exec('git', [
-          'config',
-          'user.email',
-          'github-actions[bot]@users.noreply.github.com'
-        ])
-
-        // Create branch name with timestamp
-        const timestamp = new Date().toISOString().slice(0, 10)
-        const branchName = `rofl-update-${timestamp}`
-
-        // Check if remote branch already exists
-        let remoteBranchOutput = ''
-        await exec.exec('git', ['ls-remote', '--heads', 'origin', branchName], {
-          listeners: {
-            stdout: (data: Buffer) => {
-              remoteBranchOutput += data.toString()
-            }
-          }
-        })
-        const remoteBranchExists = remoteBranchOutput.trim().length > 0
-
-        // Create and checkout branch (use -B to reset if it exists locally)
-        await exec.exec('git', ['checkout', '-B', branchName])
-
-        // Stage changes (only add files that exist)
-        await exec.exec('git', ['add', ...manifestFiles])
-        await exec.exec('git', [
-          'commit',
-          '-m',
-          'chore: update rofl.yaml artifacts to latest versions\n\n🤖 Generated by ROFL GitHub Action'
-        ])
-
-        // Push branch (force push if remote branch exists to update it)
-        const pushArgs = ['push', '-u', 'origin', branchName]
-        if (remoteBranchExists) {
-          pushArgs.push('--force')
-          core.info(
-            `Remote branch ${branchName} exists, force pushing to update it`
-          )
-        }
-        await exec.exec('git', pushArgs)
-
-        // Create PR using gh CLI
-        let prUrl = ''
-        await exec.exec(
-          'gh',
-          [
-            'pr',
-            'create',
-            '--title',
-            'chore: update ROFL artifacts to latest versions',
-            '--body',
-            '## Summary\n\nThis PR updates rofl.yaml artifacts to their latest versions.\n\nGenerated by `oasis rofl upgrade`.\n\n🤖 Generated by ROFL GitHub Action'
-          ],
-          {
-            listeners: {
-              stdout: (data: Buffer) => {
-                prUrl += data.toString().trim()
-              }
-            }
-          }
-        )
+    // Catch manifest mistakes before spending time on a containerized build
+    if (!inputs.checkUpdates) {
+      checkManifest(inputs, plan, manifest, networkInput)
+    }
 
-        core.setOutput('update_pr_url', prUrl)
-        core.info(`Pull request created: ${prUrl}`)
-      }
+    // Check the Safe network before anything is installed
+    const safeNetworks = inputs.safeAddress
+      ? loadSafeNetworks(inputs)
+      : undefined
 
-      // Return early - don't continue with build/update/deploy
+    // Plan only: report what would run without installing or executing
+    if (inputs.planOnly) {
+      await reportPlan(plan)
       return
     }
 
-    // Step 2: Install build dependencies (Linux only, soft-fail if sudo/apt unavailable)
-    if (
-      process.platform === 'linux' &&
-      !inputs.skipBuild &&
-      !inputs.onlyValidate
-    ) {
-      core.info('Installing ROFL build dependencies...')
-      try {
-        await exec.exec('sudo', ['apt-get', 'update', '-qq'])
-        await exec.exec('sudo', [
-          'apt-get',
-          'install',
-          '-y',
-          '-qq',
-          'squashfs-tools',
-          'fakeroot',
-          'cryptsetup-bin',
-          'qemu-utils'
-        ])
-      } catch {
-        core.warning(
-          'Failed to install build dependencies via apt-get. ' +
-            'If running in a container or on a non-Debian system, ' +
-            'ensure these packages are pre-installed: ' +
-            'squashfs-tools, fakeroot, cryptsetup-bin, qemu-utils'
-        )
-      }
-    }
-
-    // Step 3: Setup network and wallet
-    await exec.exec('oasis', ['network', 'set-default', inputs.network])
-    if (inputs.walletImport) {
-      await exec.exec('oasis', walletImportArgs)
-      await exec.exec('oasis', ['wallet', 'set-default', inputs.walletAccount])
-    }
+    report = createReport(
+      plan.steps,
+      inputs.network,
+      plan.deployments,
+      inputs.safeAddress
+    )
+    report.safeNetworks = safeNetworks
+    report.deploymentNetworks = inputs.deploymentNetworks
 
-    // Step 4: ROFL Build
-    if (!inputs.skipBuild) {
-      await exec.exec('oasis', buildArgs)
-      if (inputs.output) {
-        core.setOutput('build_output', inputs.output)
-      }
-    } else {
-      core.info('Skipping ROFL build step')
-    }
+    // Step 1: Install Oasis CLI
+    report.cli = await installOasisCLI(inputs.cliVersion, {
+      sha256: inputs.cliSha256,
+      downloadBaseUrl: inputs.cliDownloadBaseUrl,
+      archivePath: inputs.cliArchivePath,
+      githubToken: inputs.githubToken
+    })
+    core.info(`Oasis CLI: ${describeCLIVersion(report.cli)}`)
 
-    // Step 5: ROFL Update
-    // Skip if only_validate is set (validation doesn't need update/deploy)
-    if (!inputs.skipUpdate && !inputs.onlyValidate) {
-      await exec.exec('oasis', updateArgs)
-      if (updateOutputFile) {
-        core.setOutput('update_file', updateOutputFile)
-      }
-    } else {
-      core.info('Skipping ROFL update step')
+    // Step 1.5: Check for updates (if enabled)
+    if (inputs.checkUpdates) {
+      await runUpdateCheck(inputs, report, report.cli)
+      // Return early - don't continue with build/update/deploy
+      return
     }
 
-    // Step 6: ROFL Deploy
-    // Skip if only_validate is set (validation doesn't need update/deploy)
-    if (!inputs.skipDeploy && !inputs.onlyValidate) {
-      await exec.exec('oasis', deployArgs)
-      if (deployOutputFile) {
-        core.setOutput('deploy_file', deployOutputFile)
-      }
-    } else {
-      core.info('Skipping ROFL deploy step')
+    // Steps 2-7: Build dependencies, network and wallet setup, then build,
+    // update, deploy and propose for each deployment
+    const context: StepContext = {
+      inputs,
+      workspaceDir: process.cwd(),
+      manifest,
+      cli: report.cli,
+      safeNetworks,
+      safePreviews: report.safePreviews
     }
-
-    // Step 7: Safe transaction proposal (optional)
-    // Automatically enabled if safe_address is provided
-    if (inputs.safeAddress) {
-      // Install SDK dependencies at runtime in the workspace
-      // We use the workspace dir and pass it to createRequire for module resolution
-      const workspaceDir = process.cwd()
-      core.info(
-        `Installing Safe and Oasis SDK dependencies in ${workspaceDir}...`
+    const results = report.results
+    for (const record of report.steps) {
+      const { step } = record
+      await recordStep(record, () =>
+        executeStep(
+          step,
+          step.deployment ? results[step.deployment] : {},
+          context
+        )
       )
-      await exec.exec('npm', [
-        'install',
-        '--no-save',
-        '@safe-global/protocol-kit@6.1.2',
-        '@safe-global/api-kit@4.0.1',
-        '@safe-global/types-kit@3.0.0',
-        // Oasis SDK packages for subcall transaction generation
-        '@oasisprotocol/client@1.3.0',
-        '@oasisprotocol/client-rt@1.3.0',
-        // Required for Node.js HTTP requests
-        'xhr2@0.2.1'
-      ])
+    }
 
-      const safeInputs: SafeInputs = {
-        safePropose: true,
-        safeAddress: inputs.safeAddress,
-        safeProposerKey: inputs.safeProposerKey,
-        safeRpcUrl: inputs.safeRpcUrl,
-        safeServiceUrl: inputs.safeServiceUrl,
-        safeChainId: inputs.safeChainId,
-        grpcUrl: '', // Will use network defaults
-        deployment: inputs.deployment,
-        dryRun: inputs.safeDryRun
-      }
-      const txFiles: TransactionFiles = {
-        updateFile: updateOutputFile,
-        deployFile: deployOutputFile
-      }
-      // Pass workspace dir so SDKs can be loaded via createRequire
-      const safeTxHash = await runSafeProposal(
-        safeInputs,
-        txFiles,
-        inputs.network, // Pass network name for network config lookup
-        workspaceDir
-      )
-      if (safeTxHash) {
-        core.setOutput('safe_tx_hash', safeTxHash)
+    // Single-deployment outputs keep their original names
+    if (inputs.deployments.length === 0) {
+      for (const [name, value] of Object.entries(
+        results[plan.deployments[0]]
+      )) {
+        core.setOutput(
+          name,
+          typeof value === 'string' ? value : JSON.stringify(value)
+        )
       }
     }
+    core.setOutput('deployment_results', JSON.stringify(results))
 
     core.info('Oasis ROFL deployment steps completed successfully.')
   } catch (error) {
     core.setFailed(error instanceof Error ? error.message : String(error))
+  } finally {
+    if (report) {
+      try {
+        await writeRunSummary(report)
+      } catch (error) {
+        core.warning(`Failed to write the job summary: ${error}`)
+      }
+    }
   }
 }
@@ -0,0 +1,316 @@
+/**
+ * ROFL app manifest (rofl.yaml) model and pre-flight validation
+ *
+ * Field names follow the manifest format used by the Oasis CLI. Only the
+ * fields the action reads or checks are modelled; the CLI remains the
+ * authority on the full schema.
+ */
+import * as fs from 'fs'
+import * as path from 'path'
+import * as yaml from 'js-yaml'
+
+// Manifest file names, in lookup order
+export const MANIFEST_FILES = ['rofl.yaml', 'rofl.yml']
+
+// Deployment used by the CLI when --deployment is not given
+export const DEFAULT_DEPLOYMENT = 'default'
+
+// Directories not searched by ** in manifest globs
+const GLOB_SKIPPED_DIRS = ['node_modules']
+
+export const TEE_TYPES = ['sgx', 'tdx'] as const
+export const APP_KINDS = ['raw', 'container'] as const
+
+export interface StorageResources {
+  kind?: string
+  size?: number
+}
+
+export interface Resources {
+  // Memory in MiB
+  memory?: number
+  cpus?: number
+  storage?: StorageResources
+}
+
+export interface AppPolicy {
+  quotes?: Record<string, unknown>
+  enclaves?: Array<string | { id?: string }>
+  endorsements?: Array<Record<string, unknown>>
+  fees?: string
+  max_expiration?: number
+}
+
+export interface Machine {
+  provider?: string
+  offer?: string
+  id?: string
+}
+
+export interface Deployment {
+  app_id?: string
+  network?: string
+  paratime?: string
+  admin?: string
+  oci_repository?: string
+  trust_root?: Record<string, unknown>
+  policy?: AppPolicy
+  metadata?: Record<string, string>
+  secrets?: Array<{ name?: string; value?: string }>
+  machines?: Record<string, Machine>
+}
+
+// Artifact references are <uri>#<sha256>
+export interface Artifacts {
+  firmware?: string
+  kernel?: string
+  stage2?: string
+  container?: {
+    runtime?: string
+    compose?: string
+  }
+}
+
+export interface RoflManifest {
+  name?: string
+  version?: string
+  tee?: string
+  kind?: string
+  resources?: Resources
+  artifacts?: Artifacts
+  deployments?: Record<string, Deployment>
+  tooling?: {
+    // YAML may parse an unquoted version such as 0.18 as a number
+    version?: string | number
+  }
+}
+
+export interface LoadedManifest {
+  // File the manifest was read from (rofl.yaml or rofl.yml)
+  file: string
+  manifest: RoflManifest
+}
+
+export interface ManifestChecks {
+  // Deployments the action will build (DEFAULT_DEPLOYMENT when unnamed)
+  deployments: string[]
+  // Network set with the network input, which every deployment must be for.
+  // Empty when each deployment runs on the network of its rofl.yaml entry.
+  network: string
+  // Whether update or deploy will run, which need a registered app_id
+  requireAppId: boolean
+}
+
+/**
+ * Find the manifest in the current directory
+ * @returns The manifest file name, null if there is none
+ */
+export function findManifest(): string | null {
+  return MANIFEST_FILES.find((file) => fs.existsSync(file)) ?? null
+}
+
+/**
+ * Parse manifest text
+ * @param file - File name for error messages
+ * @throws Error if the text is not valid YAML or not a mapping
+ */
+export function parseManifest(text: string, file: string): RoflManifest {
+  let manifest: unknown
+  try {
+    manifest = yaml.load(text)
+  } catch (error) {
+    throw new Error(
+      `Failed to parse ${file}: ${error instanceof Error ? error.message : error}`
+    )
+  }
+  if (!manifest || typeof manifest !== 'object' || Array.isArray(manifest)) {
+    throw new Error(`Failed to parse ${file}: expected a YAML mapping`)
+  }
+  return manifest as RoflManifest
+}
+
+/**
+ * Read and parse a manifest file
+ * @throws Error if the file is not valid YAML or not a mapping
+ */
+export function readManifest(file: string): RoflManifest {
+  return parseManifest(fs.readFileSync(file, 'utf8'), file)
+}
+
+/**
+ * Convert a glob path segment with * and ? wildcards to a regular expression
+ */
+function segmentPattern(segment: string): RegExp {
+  const source = segment
+    .split('')
+    .map((char) =>
+      char === '*'
+        ? '[^/]*'
+        : char === '?'
+          ? '[^/]'
+          : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    )
+    .join('')
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * List the subdirectories of a directory, without hidden ones
+ */
+function subdirectories(dir: string): string[] {
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.'))
+    .map((entry) => entry.name)
+}
+
+/**
+ * Expand the glob segments below a directory
+ */
+function expandGlob(dir: string, segments: string[]): string[] {
+  if (segments.length === 0) {
+    return [dir]
+  }
+  if (!fs.statSync(dir).isDirectory()) {
+    return []
+  }
+  const [segment, ...rest] = segments
+  if (segment === '**') {
+    return [
+      ...expandGlob(dir, rest),
+      ...subdirectories(dir)
+        .filter((name) => !GLOB_SKIPPED_DIRS.includes(name))
+        .flatMap((name) => expandGlob(path.join(dir, name), segments))
+    ]
+  }
+  if (!/[*?]/.test(segment)) {
+    const next = path.join(dir, segment)
+    return fs.existsSync(next) ? expandGlob(next, rest) : []
+  }
+  const pattern = segmentPattern(segment)
+  return fs
+    .readdirSync(dir)
+    .filter((name) => !name.startsWith('.') && pattern.test(name))
+    .flatMap((name) => expandGlob(path.join(dir, name), rest))
+}
+
+/**
+ * Find the manifests matching a glob relative to the current directory
+ *
+ * Supports * and ? within a path segment and ** for any number of
+ * directories. Hidden files and directories are not matched.
+ * @returns The matching files relative to the current directory, sorted
+ */
+export function findManifests(pattern: string): string[] {
+  const segments = pattern
+    .split('/')
+    .filter((segment) => segment && segment !== '.')
+  const files = expandGlob('.', segments).filter((file) =>
+    fs.statSync(file).isFile()
+  )
+  return [...new Set(files)].sort()
+}
+
+/**
+ * Find and read the manifest in the current directory
+ * @returns The manifest and its file name, null if there is no manifest
+ */
+export function loadManifest(): LoadedManifest | null {
+  const file = findManifest()
+  return file ? { file, manifest: readManifest(file) } : null
+}
+
+/**
+ * Get a field shared by the given deployments
+ * @returns The value if every deployment sets it to the same value, undefined
+ *   if any deployment is missing, leaves it unset or disagrees
+ */
+export function deploymentValue(
+  manifest: RoflManifest,
+  deployments: string[],
+  field: 'network' | 'admin'
+): string | undefined {
+  const values = new Set(
+    deployments.map((name) => manifest.deployments?.[name]?.[field])
+  )
+  if (values.size !== 1) {
+    return undefined
+  }
+  const [value] = values
+  return value || undefined
+}
+
+/**
+ * Check that the manifest can be built for the requested deployments
+ *
+ * Catches mistakes the CLI would only report after a full build: unknown
+ * deployment names, a deployment for a different network and missing
+ * required fields.
+ * @returns A message per problem, empty if the manifest is usable
+ */
+export function validateManifest(
+  manifest: RoflManifest,
+  checks: ManifestChecks
+): string[] {
+  const errors: string[] = []
+
+  for (const field of ['name', 'version', 'tee', 'kind'] as const) {
+    if (!manifest[field]) {
+      errors.push(`${field}: required`)
+    }
+  }
+  if (
+    manifest.tee &&
+    !(TEE_TYPES as readonly string[]).includes(manifest.tee)
+  ) {
+    errors.push(
+      `tee: expected one of [${TEE_TYPES.join(', ')}], got "${manifest.tee}"`
+    )
+  }
+  if (
+    manifest.kind &&
+    !(APP_KINDS as readonly string[]).includes(manifest.kind)
+  ) {
+    errors.push(
+      `kind: expected one of [${APP_KINDS.join(', ')}], got "${manifest.kind}"`
+    )
+  }
+  if (!manifest.resources?.memory) {
+    errors.push('resources.memory: required')
+  }
+  if (!manifest.resources?.cpus) {
+    errors.push('resources.cpus: required')
+  }
+
+  const deployments = manifest.deployments ?? {}
+  const available = Object.keys(deployments)
+  for (const name of checks.deployments) {
+    const deployment = deployments[name]
+    if (!deployment) {
+      errors.push(
+        `deployments.${name}: not found (available: ${available.join(', ') || 'none'})`
+      )
+      continue
+    }
+
+    if (!deployment.network) {
+      errors.push(`deployments.${name}.network: required`)
+    } else if (checks.network && deployment.network !== checks.network) {
+      errors.push(
+        `deployments.${name}.network: deployment is for ${deployment.network} ` +
+          `but the network input is ${checks.network}`
+      )
+    }
+    if (!deployment.paratime) {
+      errors.push(`deployments.${name}.paratime: required`)
+    }
+    if (checks.requireAppId && !deployment.app_id) {
+      errors.push(
+        `deployments.${name}.app_id: required for update and deploy ` +
+          '(run oasis rofl create first)'
+      )
+    }
+  }
+
+  return errors
+}
@@ -0,0 +1,276 @@
+/**
+ * Network registry for Safe proposals
+ *
+ * A Safe proposal needs the Sapphire runtime ID, the EVM chain ID and the
+ * Web3 and Safe transaction service endpoints of the network. Mainnet and
+ * testnet are built in. Other networks, such as a localnet or a self-hosted
+ * Safe stack, come from the Oasis CLI's network config or a networks file,
+ * which can also override the built-in entries.
+ */
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import * as yaml from 'js-yaml'
+import * as toml from 'smol-toml'
+
+export interface SafeNetwork {
+  // Sapphire runtime ID (hex)
+  runtimeId: string
+  chainId?: bigint
+  grpcApi?: string
+  web3Api?: string
+  safeApi?: string
+  // Safe web UI and the chain's EIP-3770 short name, for transaction links
+  safeUi?: string
+  shortName?: string
+}
+
+export type NetworkRegistry = Record<string, SafeNetwork>
+
+export interface RegistrySources {
+  // JSON or YAML file with network entries (safe_networks_file)
+  file?: string
+  // Oasis CLI config (cli.toml) to read networks from
+  cliConfig?: string
+}
+
+export const DEFAULT_NETWORKS: NetworkRegistry = {
+  mainnet: {
+    runtimeId:
+      '000000000000000000000000000000000000000000000000f80306c9858e7279',
+    chainId: 23294n,
+    grpcApi: 'https://grpc.oasis.io',
+    web3Api: 'https://sapphire.oasis.io',
+    safeApi: 'https://transaction.safe.oasis.io/api',
+    safeUi: 'https://safe.oasis.io',
+    shortName: 'sapphire'
+  },
+  testnet: {
+    runtimeId:
+      '000000000000000000000000000000000000000000000000a6d1e3ebf60dff6c',
+    chainId: 23295n,
+    grpcApi: 'https://testnet.grpc.oasis.io',
+    web3Api: 'https://testnet.sapphire.oasis.io',
+    safeApi: 'https://transaction-testnet.safe.oasis.io/api',
+    safeUi: 'https://safe.oasis.io',
+    shortName: 'sapphire-testnet'
+  }
+}
+
+// ParaTime used from the CLI config when a network doesn't set a default
+const DEFAULT_PARATIME = 'sapphire'
+
+// Keys of a networks file entry and the field each one sets
+const ENTRY_FIELDS: Record<string, keyof SafeNetwork> = {
+  runtime_id: 'runtimeId',
+  chain_id: 'chainId',
+  grpc: 'grpcApi',
+  web3: 'web3Api',
+  safe_service: 'safeApi',
+  safe_ui: 'safeUi',
+  short_name: 'shortName'
+}
+
+/**
+ * Get the Oasis CLI config file, in the user config directory like the CLI
+ */
+export function cliConfigPath(
+  env: NodeJS.ProcessEnv = process.env,
+  platform: NodeJS.Platform = process.platform
+): string {
+  const configDir =
+    platform === 'darwin'
+      ? path.join(os.homedir(), 'Library', 'Application Support')
+      : platform === 'win32'
+        ? env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming')
+        : env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config')
+  return path.join(configDir, 'oasis', 'cli.toml')
+}
+
+/**
+ * Read the networks configured in the Oasis CLI
+ *
+ * The CLI config has the gRPC endpoint of each network and the runtime ID of
+ * its ParaTimes. The chain ID and the Web3 and Safe endpoints are not part of
+ * it and come from a networks file or the safe_* inputs.
+ * @param text - Contents of cli.toml
+ * @param file - File name for error messages
+ * @throws Error if the file is not valid TOML
+ */
+export function parseCliNetworks(
+  text: string,
+  file: string
+): Record<string, Partial<SafeNetwork>> {
+  let config: Record<string, unknown>
+  try {
+    config = toml.parse(text)
+  } catch (error) {
+    throw new Error(
+      `Failed to parse ${file}: ${error instanceof Error ? error.message : error}`
+    )
+  }
+  const networks = (config.networks ?? {}) as Record<string, unknown>
+  const entries: Record<string, Partial<SafeNetwork>> = {}
+  for (const [name, value] of Object.entries(networks)) {
+    if (!value || typeof value !== 'object') {
+      continue
+    }
+    const network = value as {
+      rpc?: unknown
+      paratimes?: Record<string, unknown>
+    }
+    const paratimes = network.paratimes ?? {}
+    const paratime = paratimes[
+      typeof paratimes.default === 'string'
+        ? paratimes.default
+        : DEFAULT_PARATIME
+    ] as { id?: unknown } | undefined
+    if (typeof paratime?.id !== 'string') {
+      continue
+    }
+    entries[name] = {
+      runtimeId: paratime.id,
+      ...(typeof network.rpc === 'string' ? { grpcApi: network.rpc } : {})
+    }
+  }
+  return entries
+}
+
+/**
+ * Parse a networks file: a JSON or YAML mapping of network names to entries
+ * with runtime_id, chain_id, grpc, web3, safe_service, safe_ui and short_name
+ * @param file - File name for error messages
+ * @throws Error listing every invalid entry
+ */
+export function parseNetworkFile(
+  text: string,
+  file: string
+): Record<string, Partial<SafeNetwork>> {
+  let data: unknown
+  try {
+    data = yaml.load(text)
+  } catch (error) {
+    throw new Error(
+      `Failed to parse ${file}: ${error instanceof Error ? error.message : error}`
+    )
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(
+      `Failed to parse ${file}: expected a mapping of network names to entries`
+    )
+  }
+
+  const errors: string[] = []
+  const entries: Record<string, Partial<SafeNetwork>> = {}
+  for (const [name, value] of Object.entries(data)) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      errors.push(`${name}: expected a mapping`)
+      continue
+    }
+    const entry: Partial<SafeNetwork> = {}
+    for (const [key, field] of Object.entries(value)) {
+      const target = ENTRY_FIELDS[key]
+      if (!target) {
+        errors.push(
+          `${name}.${key}: unknown field (expected one of ${Object.keys(ENTRY_FIELDS).join(', ')})`
+        )
+      } else if (target === 'chainId') {
+        if (!/^[1-9]\d*$/.test(String(field))) {
+          errors.push(
+            `${name}.${key}: expected a positive integer, got "${field}"`
+          )
+        } else {
+          entry.chainId = BigInt(String(field))
+        }
+      } else if (target === 'runtimeId') {
+        if (typeof field !== 'string' || !/^[0-9a-fA-F]{64}$/.test(field)) {
+          errors.push(`${name}.${key}: expected a 32-byte hex runtime ID`)
+        } else {
+          entry.runtimeId = field.toLowerCase()
+        }
+      } else if (typeof field !== 'string' || !field) {
+        errors.push(`${name}.${key}: expected a string`)
+      } else {
+        entry[target] = field
+      }
+    }
+    entries[name] = entry
+  }
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid ${file}:\n${errors.map((error) => `  - ${error}`).join('\n')}`
+    )
+  }
+  return entries
+}
+
+/**
+ * Add network entries to a registry, overriding the fields they set
+ * @throws Error if a new network has no runtime ID
+ */
+export function mergeNetworks(
+  registry: NetworkRegistry,
+  entries: Record<string, Partial<SafeNetwork>>,
+  source: string
+): NetworkRegistry {
+  const merged = { ...registry }
+  for (const [name, entry] of Object.entries(entries)) {
+    const runtimeId = entry.runtimeId ?? registry[name]?.runtimeId
+    if (!runtimeId) {
+      throw new Error(`Network ${name} in ${source} has no runtime_id`)
+    }
+    merged[name] = { ...registry[name], ...entry, runtimeId }
+  }
+  return merged
+}
+
+/**
+ * Build the network registry: the built-in networks, then the CLI config,
+ * then the networks file
+ * @throws Error if a source can't be read or has invalid entries
+ */
+export function loadNetworkRegistry(sources: RegistrySources): NetworkRegistry {
+  let registry = DEFAULT_NETWORKS
+  if (sources.cliConfig) {
+    if (!fs.existsSync(sources.cliConfig)) {
+      throw new Error(`Oasis CLI config not found: ${sources.cliConfig}`)
+    }
+    registry = mergeNetworks(
+      registry,
+      parseCliNetworks(
+        fs.readFileSync(sources.cliConfig, 'utf8'),
+        sources.cliConfig
+      ),
+      sources.cliConfig
+    )
+  }
+  if (sources.file) {
+    if (!fs.existsSync(sources.file)) {
+      throw new Error(`safe_networks_file not found: ${sources.file}`)
+    }
+    registry = mergeNetworks(
+      registry,
+      parseNetworkFile(fs.readFileSync(sources.file, 'utf8'), sources.file),
+      sources.file
+    )
+  }
+  return registry
+}
+
+/**
+ * Look up a network in the registry
+ * @throws Error if the network is unknown
+ */
+export function getNetwork(
+  registry: NetworkRegistry,
+  name: string
+): SafeNetwork {
+  const network = registry[name]
+  if (!network) {
+    throw new Error(
+      `Unknown network: ${name}. Supported: ${Object.keys(registry).join(', ')}. ` +
+        'Add other networks with safe_networks_file or safe_cli_networks.'
+    )
+  }
+  return network
+}
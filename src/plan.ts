@@ -0,0 +1,444 @@
+/**
+ * Execution plan builder
+ *
+ * Turns the validated action inputs into the ordered list of commands the
+ * action will run. Building a plan has no side effects, so the same plan can
+ * be executed or just printed for review (plan_only).
+ */
+import * as path from 'path'
+import { ActionInputs } from './inputs.js'
+import { DEFAULT_DEPLOYMENT } from './manifest.js'
+
+// Packages installed at runtime for Safe proposals (loaded via createRequire).
+// The Oasis SDK is bundled, so safe_export installs nothing.
+export const SAFE_SDK_PACKAGES = [
+  '@safe-global/protocol-kit@6.1.2',
+  '@safe-global/api-kit@4.0.1',
+  '@safe-global/types-kit@3.0.0',
+  // Required for Node.js HTTP requests
+  'xhr2@0.2.1'
+]
+
+export const BUILD_DEPENDENCIES = [
+  'squashfs-tools',
+  'fakeroot',
+  'cryptsetup-bin',
+  'qemu-utils'
+]
+
+export type StepId =
+  | 'upgrade'
+  | 'build-deps'
+  | 'network'
+  | 'wallet-import'
+  | 'wallet-default'
+  | 'safe-deps'
+  | 'build'
+  | 'update'
+  | 'deploy'
+  | 'safe-propose'
+
+const STEP_TITLES: Record<StepId, string> = {
+  upgrade: 'ROFL upgrade',
+  'build-deps': 'build dependencies',
+  network: 'network setup',
+  'wallet-import': 'wallet import',
+  'wallet-default': 'wallet default',
+  'safe-deps': 'Safe SDK install',
+  build: 'ROFL build',
+  update: 'ROFL update',
+  deploy: 'ROFL deploy',
+  'safe-propose': 'Safe proposal'
+}
+
+export interface PlanStep {
+  id: StepId
+  // Deployment the step belongs to (per-deployment steps only)
+  deployment?: string
+  // App directory the step runs in (manifest_glob only)
+  app?: string
+  command: string
+  // Full arguments, may contain secrets. Use redactArgs before logging.
+  args: string[]
+  // Why the step will not run, unset when it will
+  skipped?: string
+  // File the step produces (bundle for build, transaction for update/deploy)
+  outputFile?: string
+  // Network the step targets (network and safe-propose only)
+  network?: string
+  // Transaction files proposed to the Safe (safe-propose only)
+  txFiles?: { updateFile?: string; deployFile?: string }
+}
+
+export interface ExecutionPlan {
+  cliVersion: string
+  deployments: string[]
+  steps: PlanStep[]
+}
+
+/**
+ * Get the human-readable title of a step, as used in logs
+ */
+export function stepTitle(step: PlanStep): string {
+  return step.app
+    ? `${STEP_TITLES[step.id]} (${step.app})`
+    : STEP_TITLES[step.id]
+}
+
+/**
+ * Replace secret argument values with ***
+ */
+export function redactArgs(args: string[]): string[] {
+  return args.map((arg, i) => (args[i - 1] === '--secret' ? '***' : arg))
+}
+
+/**
+ * Derive a per-deployment file name by inserting the deployment name before
+ * the extension (e.g. update.cbor -> update.testnet.cbor)
+ */
+export function deploymentFile(file: string, deployment: string): string {
+  if (!file) {
+    return file
+  }
+  const ext = path.extname(file)
+  return `${file.slice(0, file.length - ext.length)}.${deployment}${ext}`
+}
+
+/**
+ * Get the inputs for one deployment, with its own network and wallet account.
+ * With a deployments list, output files get the deployment name as a suffix so
+ * deployments don't overwrite each other.
+ */
+function deploymentInputs(
+  inputs: ActionInputs,
+  deployment: string
+): ActionInputs {
+  const settings = {
+    network: inputs.deploymentNetworks?.[deployment] || inputs.network,
+    walletAccount:
+      inputs.deploymentAccounts?.[deployment] || inputs.walletAccount
+  }
+  if (inputs.deployments.length === 0) {
+    return { ...inputs, ...settings }
+  }
+  return {
+    ...inputs,
+    ...settings,
+    deployment,
+    output: deploymentFile(inputs.output, deployment),
+    outputFile: deploymentFile(inputs.outputFile, deployment),
+    updateOutputFile: deploymentFile(inputs.updateOutputFile, deployment),
+    deployOutputFile: deploymentFile(inputs.deployOutputFile, deployment)
+  }
+}
+
+/**
+ * Build the oasis wallet import arguments (sorted alphabetically after --yes)
+ */
+function walletImportArgs(inputs: ActionInputs): string[] {
+  return [
+    'wallet',
+    'import',
+    inputs.walletAccount,
+    '--yes',
+    ...(inputs.walletAlgorithm ? ['--algorithm', inputs.walletAlgorithm] : []),
+    ...(inputs.config ? ['--config', inputs.config] : []),
+    ...(inputs.walletNumber ? ['--number', inputs.walletNumber] : []),
+    ...(inputs.walletSecret ? ['--secret', inputs.walletSecret] : [])
+  ]
+}
+
+/**
+ * Build the oasis rofl build arguments
+ */
+function buildArgs(inputs: ActionInputs): string[] {
+  // By default, use --verify to fail if enclave IDs don't match
+  // If update_manifest is true, skip verify and allow manifest updates
+  const shouldVerify = !inputs.updateManifest && !inputs.onlyValidate
+  return [
+    'rofl',
+    'build',
+    ...(inputs.config ? ['--config', inputs.config] : []),
+    ...(inputs.deployment ? ['--deployment', inputs.deployment] : []),
+    ...(inputs.force ? ['--force'] : []),
+    ...(inputs.noContainer ? ['--no-container'] : []),
+    ...(inputs.noUpdateManifest && !inputs.updateManifest
+      ? ['--no-update-manifest']
+      : []),
+    ...(inputs.offline ? ['--offline'] : []),
+    ...(inputs.onlyValidate ? ['--only-validate'] : []),
+    ...(inputs.output ? ['--output', inputs.output] : []),
+    ...(inputs.verbose ? ['--verbose'] : []),
+    ...(shouldVerify || inputs.verify ? ['--verify'] : [])
+  ]
+}
+
+/**
+ * Build the oasis rofl update arguments
+ */
+function updateArgs(inputs: ActionInputs, outputFile: string): string[] {
+  return [
+    'rofl',
+    'update',
+    '--yes',
+    ...(inputs.walletAccount ? ['--account', inputs.walletAccount] : []),
+    ...(inputs.config ? ['--config', inputs.config] : []),
+    ...(inputs.deployment ? ['--deployment', inputs.deployment] : []),
+    ...(inputs.encrypted ? ['--encrypted'] : []),
+    ...(inputs.feeDenom ? ['--fee-denom', inputs.feeDenom] : []),
+    ...(inputs.format ? ['--format', inputs.format] : []),
+    ...(inputs.gasLimit ? ['--gas-limit', inputs.gasLimit] : []),
+    ...(inputs.gasPrice ? ['--gas-price', inputs.gasPrice] : []),
+    ...(inputs.nonce ? ['--nonce', inputs.nonce] : []),
+    ...(inputs.offline ? ['--offline'] : []),
+    ...(outputFile ? ['--output-file', outputFile] : []),
+    ...(inputs.unsigned ? ['--unsigned'] : [])
+  ]
+}
+
+/**
+ * Build the oasis rofl deploy arguments
+ */
+function deployArgs(inputs: ActionInputs, outputFile: string): string[] {
+  return [
+    'rofl',
+    'deploy',
+    '--yes',
+    ...(inputs.walletAccount ? ['--account', inputs.walletAccount] : []),
+    ...(inputs.config ? ['--config', inputs.config] : []),
+    ...(inputs.deployment ? ['--deployment', inputs.deployment] : []),
+    ...(inputs.encrypted ? ['--encrypted'] : []),
+    ...(inputs.feeDenom ? ['--fee-denom', inputs.feeDenom] : []),
+    ...(inputs.force ? ['--force'] : []),
+    ...(inputs.format ? ['--format', inputs.format] : []),
+    ...(inputs.gasLimit ? ['--gas-limit', inputs.gasLimit] : []),
+    ...(inputs.gasPrice ? ['--gas-price', inputs.gasPrice] : []),
+    ...(inputs.machine ? ['--machine', inputs.machine] : []),
+    ...(inputs.nonce ? ['--nonce', inputs.nonce] : []),
+    ...(inputs.offer ? ['--offer', inputs.offer] : []),
+    ...(inputs.offline ? ['--offline'] : []),
+    ...(outputFile ? ['--output-file', outputFile] : []),
+    ...(inputs.provider ? ['--provider', inputs.provider] : []),
+    ...(inputs.replaceMachine ? ['--replace-machine'] : []),
+    ...(inputs.showOffers ? ['--show-offers'] : []),
+    ...(inputs.term ? ['--term', inputs.term] : []),
+    ...(inputs.termCount ? ['--term-count', inputs.termCount] : []),
+    ...(inputs.unsigned ? ['--unsigned'] : []),
+    ...(inputs.wipeStorage ? ['--wipe-storage'] : [])
+  ]
+}
+
+/**
+ * Build the step installing the build dependencies. Linux only, soft-fails if
+ * sudo/apt is unavailable. Package lists are refreshed (apt-get update) before
+ * installing.
+ */
+function buildDepsStep(
+  inputs: ActionInputs,
+  platform: NodeJS.Platform
+): PlanStep {
+  return {
+    id: 'build-deps',
+    command: 'sudo',
+    args: ['apt-get', 'install', '-y', '-qq', ...BUILD_DEPENDENCIES],
+    skipped:
+      platform !== 'linux'
+        ? 'not running on Linux'
+        : inputs.skipBuild
+          ? 'skip_build is set'
+          : inputs.onlyValidate
+            ? 'only_validate is set'
+            : undefined
+  }
+}
+
+/**
+ * Build the rofl build step for a single deployment
+ */
+function buildStep(inputs: ActionInputs): PlanStep {
+  return {
+    id: 'build',
+    deployment: inputs.deployment || DEFAULT_DEPLOYMENT,
+    command: 'oasis',
+    args: buildArgs(inputs),
+    skipped: inputs.skipBuild ? 'skip_build is set' : undefined,
+    outputFile: inputs.output || undefined
+  }
+}
+
+/**
+ * Build the steps for a single deployment: network setup, build, update,
+ * deploy and the optional Safe proposal
+ */
+function deploymentSteps(inputs: ActionInputs): PlanStep[] {
+  const deployment = inputs.deployment || DEFAULT_DEPLOYMENT
+  // Use separate update/deploy output files if provided, otherwise fall back
+  // to output_file
+  const updateOutputFile = inputs.updateOutputFile || inputs.outputFile
+  const deployOutputFile = inputs.deployOutputFile || inputs.outputFile
+
+  return [
+    {
+      id: 'network',
+      deployment,
+      network: inputs.network,
+      command: 'oasis',
+      args: ['network', 'set-default', inputs.network]
+    },
+    buildStep(inputs),
+    // Skip update/deploy if only_validate is set (validation doesn't need them)
+    {
+      id: 'update',
+      deployment,
+      command: 'oasis',
+      args: updateArgs(inputs, updateOutputFile),
+      skipped: inputs.skipUpdate
+        ? 'skip_update is set'
+        : inputs.onlyValidate
+          ? 'only_validate is set'
+          : undefined,
+      outputFile: updateOutputFile || undefined
+    },
+    {
+      id: 'deploy',
+      deployment,
+      command: 'oasis',
+      args: deployArgs(inputs, deployOutputFile),
+      skipped: inputs.skipDeploy
+        ? 'skip_deploy is set'
+        : inputs.onlyValidate
+          ? 'only_validate is set'
+          : undefined,
+      outputFile: deployOutputFile || undefined
+    },
+    {
+      id: 'safe-propose',
+      deployment,
+      network: inputs.network,
+      command: 'safe',
+      args: [
+        inputs.safeExport ? 'export' : 'propose',
+        inputs.safeAddress,
+        '--network',
+        inputs.network,
+        ...(updateOutputFile ? ['--update-file', updateOutputFile] : []),
+        ...(deployOutputFile ? ['--deploy-file', deployOutputFile] : []),
+        ...(inputs.safeDryRun ? ['--dry-run'] : [])
+      ],
+      skipped: inputs.safeAddress ? undefined : 'safe_address is not set',
+      txFiles: {
+        updateFile: updateOutputFile,
+        deployFile: deployOutputFile
+      }
+    }
+  ]
+}
+
+/**
+ * Get the deployments the action runs for, in order
+ */
+export function selectDeployments(inputs: ActionInputs): string[] {
+  return inputs.deployments.length > 0
+    ? inputs.deployments
+    : [inputs.deployment || DEFAULT_DEPLOYMENT]
+}
+
+/**
+ * Build the execution plan for the given inputs
+ *
+ * Safe mode adjustments (unsigned, cbor) and the network and account defaults
+ * must already be applied to inputs.
+ * @param inputs - Validated action inputs
+ * @param platform - Platform the action runs on (decides build dependencies)
+ * @param apps - App directories matched by manifest_glob, to check each app
+ *   for updates
+ * @returns The ordered plan, including skipped steps and why they are skipped
+ */
+export function buildPlan(
+  inputs: ActionInputs,
+  platform: NodeJS.Platform = process.platform,
+  apps?: string[]
+): ExecutionPlan {
+  const deployments = selectDeployments(inputs)
+
+  // The update check only runs oasis rofl upgrade (and optionally opens a PR)
+  if (inputs.checkUpdates) {
+    const targets = apps ?? [undefined]
+    const inApp = (app?: string) => (app ? { app } : {})
+    const steps: PlanStep[] = targets.map((app) => ({
+      id: 'upgrade',
+      ...inApp(app),
+      command: 'oasis',
+      args: [
+        'rofl',
+        'upgrade',
+        ...(inputs.deployment ? ['--deployment', inputs.deployment] : [])
+      ]
+    }))
+    // Build the upgraded manifest without verification, so the build records
+    // the new enclave IDs in rofl.yaml
+    if (inputs.validateUpdate) {
+      const buildInputs = { ...inputs, updateManifest: true, verify: false }
+      steps.push(buildDepsStep(buildInputs, platform))
+      for (const app of targets) {
+        steps.push(
+          ...deployments.map((deployment) => ({
+            ...buildStep(deploymentInputs(buildInputs, deployment)),
+            ...inApp(app)
+          }))
+        )
+      }
+    }
+    return { cliVersion: inputs.cliVersion, deployments, steps }
+  }
+
+  const steps: PlanStep[] = [
+    buildDepsStep(inputs, platform),
+    {
+      id: 'wallet-import',
+      command: 'oasis',
+      args: walletImportArgs(inputs),
+      skipped: inputs.walletImport ? undefined : 'wallet_import is not set'
+    },
+    {
+      id: 'wallet-default',
+      command: 'oasis',
+      args: ['wallet', 'set-default', inputs.walletAccount],
+      skipped: inputs.walletImport ? undefined : 'wallet_import is not set'
+    },
+    // Installed once for all deployments
+    {
+      id: 'safe-deps',
+      command: 'npm',
+      args: ['install', '--no-save', ...SAFE_SDK_PACKAGES],
+      skipped: !inputs.safeAddress
+        ? 'safe_address is not set'
+        : inputs.safeExport
+          ? 'safe_export uses the bundled Oasis SDK'
+          : undefined
+    }
+  ]
+
+  for (const deployment of deployments) {
+    steps.push(...deploymentSteps(deploymentInputs(inputs, deployment)))
+  }
+
+  return { cliVersion: inputs.cliVersion, deployments, steps }
+}
+
+/**
+ * Convert a plan to its JSON form for outputs and logs (secrets redacted)
+ */
+export function planToJSON(plan: ExecutionPlan): object {
+  return {
+    cli_version: plan.cliVersion,
+    deployments: plan.deployments,
+    steps: plan.steps.map((step) => ({
+      id: step.id,
+      ...(step.app ? { app: step.app } : {}),
+      ...(step.deployment ? { deployment: step.deployment } : {}),
+      command: [step.command, ...redactArgs(step.args)].join(' '),
+      ...(step.skipped ? { skipped: step.skipped } : {})
+    }))
+  }
+}
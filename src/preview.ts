@@ -0,0 +1,235 @@
+/**
+ * Readable preview of the ROFL calls in a Safe proposal
+ *
+ * Safe signers only see the subcall calldata, so the action decodes each
+ * transaction file into the fields that matter for review: the app, its
+ * enclave IDs and policy, the admin, and for roflmarket calls the machine and
+ * its commands. Secret values are encrypted in the transaction and never
+ * shown, only their names.
+ */
+import * as fs from 'fs'
+
+// Previews are written next to the first transaction file as
+// <file>.preview.json
+const PREVIEW_SUFFIX = '.preview.json'
+
+// rofl.FeePolicy and roflmarket.Term values, as named in rofl.yaml
+const FEE_POLICIES: Record<number, string> = {
+  1: 'instance',
+  2: 'endorsing_node'
+}
+const TERMS: Record<number, string> = { 1: 'hour', 2: 'month', 3: 'year' }
+
+/**
+ * Decoding helpers from the Oasis SDK
+ */
+export interface PreviewCodec {
+  // Bech32 form of an address or app ID, e.g. oasis1... or rofl1...
+  toBech32(prefix: string, data: Uint8Array): string
+  fromCBOR(data: Uint8Array): unknown
+}
+
+/**
+ * Decoded call, with the same field names as rofl.yaml where they overlap
+ */
+export interface CallPreview {
+  // Transaction file the call was read from
+  file: string
+  method: string
+  app_id?: string
+  // Null when the call removes the admin
+  admin?: string | null
+  enclave_ids?: string[]
+  policy?: {
+    quotes?: unknown
+    endorsements?: unknown[]
+    fees?: string
+    max_expiration?: number
+  }
+  // Secret names only, the values are never decoded
+  secrets?: string[]
+  provider?: string
+  offer?: string
+  machine?: string
+  term?: string
+  term_count?: number
+  deployment?: unknown
+  commands?: unknown[]
+}
+
+export interface ProposalPreview {
+  network: string
+  safe_address: string
+  calls: CallPreview[]
+}
+
+function isBytes(value: unknown): value is Uint8Array {
+  return value instanceof Uint8Array
+}
+
+function hex(data: Uint8Array): string {
+  return Buffer.from(data).toString('hex')
+}
+
+/**
+ * Convert decoded CBOR to JSON-friendly values: bytes as hex, big integers as
+ * strings and secrets as their names
+ */
+function readable(value: unknown): unknown {
+  if (isBytes(value)) {
+    return hex(value)
+  }
+  if (typeof value === 'bigint') {
+    return value.toString()
+  }
+  if (Array.isArray(value)) {
+    return value.map(readable)
+  }
+  if (value instanceof Map) {
+    return readable(Object.fromEntries(value))
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [
+        key,
+        key === 'secrets' && field && typeof field === 'object'
+          ? Object.keys(field).sort()
+          : readable(field)
+      ])
+    )
+  }
+  return value
+}
+
+/**
+ * Get the enclave ID as in rofl.yaml: base64 of MRENCLAVE then MRSIGNER
+ */
+function enclaveId(identity: unknown): string {
+  const { mr_enclave, mr_signer } = (identity ?? {}) as Record<string, unknown>
+  if (!isBytes(mr_enclave) || !isBytes(mr_signer)) {
+    return JSON.stringify(readable(identity))
+  }
+  return Buffer.concat([mr_enclave, mr_signer]).toString('base64')
+}
+
+/**
+ * Decode a rofl or roflmarket call for review
+ * @param file - Transaction file the call was read from
+ */
+export function previewCall(
+  call: { method: string; body?: unknown },
+  file: string,
+  codec: PreviewCodec
+): CallPreview {
+  const body = (call.body ?? {}) as Record<string, unknown>
+  const preview: CallPreview = { file, method: call.method }
+
+  if (call.method.startsWith('rofl.')) {
+    if (isBytes(body.id)) {
+      preview.app_id = codec.toBech32('rofl', body.id)
+    }
+    if ('admin' in body) {
+      preview.admin = isBytes(body.admin)
+        ? codec.toBech32('oasis', body.admin)
+        : null
+    }
+    const policy = body.policy as Record<string, unknown> | undefined
+    if (policy) {
+      preview.enclave_ids = ((policy.enclaves as unknown[]) ?? []).map(
+        enclaveId
+      )
+      preview.policy = {
+        quotes: readable(policy.quotes),
+        endorsements: (readable(policy.endorsements) as unknown[]) ?? [],
+        fees:
+          FEE_POLICIES[Number(policy.fees)] ?? String(readable(policy.fees)),
+        ...(policy.max_expiration !== undefined
+          ? { max_expiration: Number(policy.max_expiration) }
+          : {})
+      }
+    }
+    if (body.secrets && typeof body.secrets === 'object') {
+      preview.secrets = Object.keys(body.secrets).sort()
+    }
+  }
+
+  if (call.method.startsWith('roflmarket.')) {
+    if (isBytes(body.provider)) {
+      preview.provider = codec.toBech32('oasis', body.provider)
+    }
+    if (isBytes(body.offer)) {
+      preview.offer = hex(body.offer)
+    }
+    if (isBytes(body.id)) {
+      preview.machine = hex(body.id)
+    }
+    if (body.term !== undefined) {
+      preview.term = TERMS[Number(body.term)] ?? String(body.term)
+    }
+    if (body.term_count !== undefined) {
+      preview.term_count = Number(body.term_count)
+    }
+    if (body.deployment) {
+      preview.deployment = readable(body.deployment)
+    }
+    if (Array.isArray(body.cmds)) {
+      preview.commands = body.cmds.map((cmd) =>
+        readable(isBytes(cmd) ? codec.fromCBOR(cmd) : cmd)
+      )
+    }
+  }
+  return preview
+}
+
+/**
+ * List the fields of a call preview as label and value pairs
+ */
+export function previewRows(preview: CallPreview): Array<[string, string]> {
+  const json = (value: unknown) => JSON.stringify(value)
+  const rows: Array<[string, string | undefined]> = [
+    ['Method', preview.method],
+    ['File', preview.file],
+    ['App ID', preview.app_id],
+    [
+      'Admin',
+      preview.admin === null ? 'none (removed)' : (preview.admin ?? undefined)
+    ],
+    ['Enclave IDs', preview.enclave_ids?.join(', ')],
+    ['Quotes', preview.policy && json(preview.policy.quotes)],
+    ['Endorsements', preview.policy && json(preview.policy.endorsements)],
+    ['Fees', preview.policy?.fees],
+    ['Max expiration', preview.policy?.max_expiration?.toString()],
+    ['Secrets', preview.secrets && (preview.secrets.join(', ') || 'none')],
+    ['Provider', preview.provider],
+    ['Offer', preview.offer],
+    ['Machine', preview.machine],
+    [
+      'Term',
+      preview.term &&
+        `${preview.term_count ?? 1} ${preview.term}${(preview.term_count ?? 1) === 1 ? '' : 's'}`
+    ],
+    [
+      'Deployment',
+      preview.deployment === undefined ? undefined : json(preview.deployment)
+    ],
+    ['Commands', preview.commands?.map((cmd) => json(cmd)).join('\n')]
+  ]
+  return rows.filter((row): row is [string, string] => row[1] !== undefined)
+}
+
+/**
+ * Get the preview file path for a transaction file
+ */
+export function previewFile(txFile: string): string {
+  return `${txFile}${PREVIEW_SUFFIX}`
+}
+
+/**
+ * Write the preview of a proposal next to its first transaction file
+ * @returns The preview file path
+ */
+export function writePreview(preview: ProposalPreview): string {
+  const file = previewFile(preview.calls[0].file)
+  fs.writeFileSync(file, `${JSON.stringify(preview, null, 2)}\n`)
+  return file
+}
@@ -0,0 +1,371 @@
+/**
+ * Update pull requests for rofl upgrade
+ *
+ * Commits the upgraded manifest to a branch and opens a pull request, either
+ * with git and the gh CLI (this module) or through the GitHub REST API
+ * (github.ts). Open update PRs are found by their branch prefix rather than
+ * their title, so a custom title doesn't lead to duplicate PRs, and are
+ * refreshed when a newer upgrade becomes available.
+ */
+import * as core from '@actions/core'
+import * as exec from '@actions/exec'
+import { ActionInputs, COMMIT_AUTHOR } from './inputs.js'
+import { parseManifest, RoflManifest } from './manifest.js'
+
+// Open PRs and issues listed with gh, which lists only 30 by default and
+// pages through the API up to the limit
+const LIST_LIMIT = '1000'
+
+export interface UpdatePrSettings {
+  branchPrefix: string
+  // Empty for the repository's default branch
+  base: string
+  title: string
+  labels: string[]
+  reviewers: string[]
+  assignees: string[]
+  draft: boolean
+  author: { name: string; email: string }
+}
+
+export interface PullRequest {
+  url: string
+  branch: string
+  number?: number
+}
+
+export interface BranchState {
+  // Whether the manifest files differ from the branch
+  changed: boolean
+  // Manifest on the branch, undefined if it can't be read
+  manifest?: RoflManifest
+}
+
+/**
+ * Operations of the update PR flow, implemented by ghClient and apiClient
+ */
+export interface UpdatePrClient {
+  // Find an open update PR
+  find(settings: UpdatePrSettings): Promise<PullRequest | undefined>
+  // Compare the manifest files with a PR branch
+  compare(branch: string, files: string[]): Promise<BranchState | undefined>
+  // Commit the manifest files to a branch and push it
+  push(
+    settings: UpdatePrSettings,
+    branch: string,
+    files: string[]
+  ): Promise<void>
+  // Open a PR for a pushed branch and return its URL
+  create(
+    settings: UpdatePrSettings,
+    branch: string,
+    body: string
+  ): Promise<string>
+  // Update the body of an open PR and comment on the refresh
+  refresh(pr: PullRequest, body: string, comment: string): Promise<void>
+  // Open an issue, or comment on an open issue with the same title, and
+  // return its URL
+  report(
+    settings: UpdatePrSettings,
+    title: string,
+    body: string
+  ): Promise<string>
+}
+
+/**
+ * Get the update PR settings from the action inputs
+ */
+export function updatePrSettings(inputs: ActionInputs): UpdatePrSettings {
+  const [, name, email] = COMMIT_AUTHOR.exec(inputs.updateCommitAuthor) ?? []
+  return {
+    branchPrefix: inputs.updateBranchPrefix,
+    base: inputs.updatePrBase,
+    title: inputs.updatePrTitle,
+    labels: inputs.updatePrLabels,
+    reviewers: inputs.updatePrReviewers,
+    assignees: inputs.updatePrAssignees,
+    draft: inputs.updatePrDraft,
+    author: { name, email }
+  }
+}
+
+/**
+ * Get the branch for an update, e.g. rofl-update-2025-01-31
+ */
+export function updateBranch(prefix: string, date: Date = new Date()): string {
+  return `${prefix}${date.toISOString().slice(0, 10)}`
+}
+
+/**
+ * Check if a branch is the prefix followed by a date, so rofl-update- matches
+ * rofl-update-2025-01-31 but not rofl-update-apps-oracle-2025-01-31
+ */
+export function isUpdateBranch(prefix: string, branch: string): boolean {
+  return (
+    branch.startsWith(prefix) &&
+    /^\d{4}-\d{2}-\d{2}$/.test(branch.slice(prefix.length))
+  )
+}
+
+/**
+ * Get the branch prefix for the update PR of one app, e.g. rofl-update-apps-oracle-
+ */
+export function appBranchPrefix(prefix: string, app: string): string {
+  const slug = app
+    .toLowerCase()
+    .replace(/[^a-z0-9._]+/g, '-')
+    .replace(/^[-.]+|[-.]+$/g, '')
+  return `${prefix}${slug || 'root'}-`
+}
+
+/**
+ * Run a command and capture its stdout
+ */
+async function capture(
+  command: string,
+  args: string[],
+  ignoreReturnCode = false,
+  silent = false
+): Promise<{ exitCode: number; stdout: string }> {
+  let stdout = ''
+  const exitCode = await exec.exec(command, args, {
+    ignoreReturnCode,
+    silent,
+    listeners: {
+      stdout: (data: Buffer) => {
+        stdout += data.toString()
+      }
+    }
+  })
+  return { exitCode, stdout: stdout.trim() }
+}
+
+/**
+ * Find an open update PR, by a head branch made of the branch prefix and a date
+ * @returns The PR, undefined if there is none or the lookup fails
+ */
+export async function findUpdatePr(
+  settings: UpdatePrSettings
+): Promise<PullRequest | undefined> {
+  const args = [
+    'pr',
+    'list',
+    '--state',
+    'open',
+    '--limit',
+    LIST_LIMIT,
+    '--json',
+    'number,url,headRefName'
+  ]
+  if (settings.base) {
+    args.push('--base', settings.base)
+  }
+  const { exitCode, stdout } = await capture('gh', args, true)
+  if (exitCode !== 0) {
+    core.warning('Failed to list open pull requests, creating a new one')
+    return undefined
+  }
+
+  let prs: Array<{ number?: number; url?: string; headRefName?: string }> = []
+  try {
+    prs = stdout ? JSON.parse(stdout) : []
+  } catch {
+    core.warning('Failed to parse the open pull requests, creating a new one')
+    return undefined
+  }
+  const pr = prs.find(
+    (pr) =>
+      pr.headRefName && isUpdateBranch(settings.branchPrefix, pr.headRefName)
+  )
+  return pr?.url && pr.headRefName
+    ? { url: pr.url, branch: pr.headRefName, number: pr.number }
+    : undefined
+}
+
+/**
+ * Compare the manifest files in the working tree with an update PR branch
+ * @param files - Manifest files, the first one is read from the branch
+ * @returns The comparison, undefined if the branch can't be fetched
+ */
+export async function compareWithBranch(
+  branch: string,
+  files: string[]
+): Promise<BranchState | undefined> {
+  const fetch = await exec.exec('git', ['fetch', 'origin', branch], {
+    ignoreReturnCode: true
+  })
+  if (fetch !== 0) {
+    core.warning(`Failed to fetch ${branch}, refreshing the pull request`)
+    return undefined
+  }
+
+  const diff = await exec.exec(
+    'git',
+    ['diff', '--quiet', 'FETCH_HEAD', '--', ...files],
+    { ignoreReturnCode: true }
+  )
+  const { exitCode, stdout } = await capture(
+    'git',
+    ['show', `FETCH_HEAD:./${files[0]}`],
+    true,
+    true
+  )
+  let manifest: RoflManifest | undefined
+  try {
+    manifest = exitCode === 0 ? parseManifest(stdout, files[0]) : undefined
+  } catch (error) {
+    core.warning(
+      `Failed to read ${files[0]} on ${branch}: ${error instanceof Error ? error.message : error}`
+    )
+  }
+  return { changed: diff !== 0, manifest }
+}
+
+/**
+ * Commit the manifest files to the branch and push it, then return to the
+ * starting checkout so the next branch (per-app PRs) starts from it too
+ */
+export async function commitUpdate(
+  settings: UpdatePrSettings,
+  branch: string,
+  files: string[]
+): Promise<void> {
+  await exec.exec('git', ['config', 'user.name', settings.author.name])
+  await exec.exec('git', ['config', 'user.email', settings.author.email])
+
+  // Check if remote branch already exists
+  const { stdout } = await capture('git', [
+    'ls-remote',
+    '--heads',
+    'origin',
+    branch
+  ])
+  const remoteBranchExists = stdout.length > 0
+
+  // Create and checkout branch (use -B to reset if it exists locally)
+  await exec.exec('git', ['checkout', '-B', branch])
+  await exec.exec('git', ['add', ...files])
+  await exec.exec('git', [
+    'commit',
+    '-m',
+    `${settings.title}\n\n🤖 Generated by ROFL GitHub Action`
+  ])
+
+  // Push branch (force push if remote branch exists to update it)
+  const pushArgs = ['push', '-u', 'origin', branch]
+  if (remoteBranchExists) {
+    pushArgs.push('--force')
+    core.info(`Remote branch ${branch} exists, force pushing to update it`)
+  }
+  await exec.exec('git', pushArgs)
+  await exec.exec('git', ['checkout', '-'])
+}
+
+/**
+ * Open the update PR for a pushed branch
+ * @returns The PR URL
+ */
+export async function createUpdatePr(
+  settings: UpdatePrSettings,
+  branch: string,
+  body: string
+): Promise<string> {
+  const args = [
+    'pr',
+    'create',
+    '--head',
+    branch,
+    '--title',
+    settings.title,
+    '--body',
+    body
+  ]
+  if (settings.base) {
+    args.push('--base', settings.base)
+  }
+  for (const label of settings.labels) {
+    args.push('--label', label)
+  }
+  for (const reviewer of settings.reviewers) {
+    args.push('--reviewer', reviewer)
+  }
+  for (const assignee of settings.assignees) {
+    args.push('--assignee', assignee)
+  }
+  if (settings.draft) {
+    args.push('--draft')
+  }
+  const { stdout } = await capture('gh', args)
+  return stdout
+}
+
+/**
+ * Update the body of an open update PR and comment on the refresh
+ */
+export async function refreshUpdatePr(
+  pr: PullRequest,
+  body: string,
+  comment: string
+): Promise<void> {
+  await exec.exec('gh', ['pr', 'edit', pr.url, '--body', body])
+  await exec.exec('gh', ['pr', 'comment', pr.url, '--body', comment])
+}
+
+/**
+ * Report a failed update in an issue, commenting on an open issue with the
+ * same title instead of opening a duplicate
+ * @returns The issue URL
+ */
+export async function reportUpdateFailure(
+  settings: UpdatePrSettings,
+  title: string,
+  body: string
+): Promise<string> {
+  const { exitCode, stdout } = await capture(
+    'gh',
+    [
+      'issue',
+      'list',
+      '--state',
+      'open',
+      '--limit',
+      LIST_LIMIT,
+      '--json',
+      'title,url'
+    ],
+    true
+  )
+  let issues: Array<{ title?: string; url?: string }> = []
+  try {
+    issues = exitCode === 0 && stdout ? JSON.parse(stdout) : []
+  } catch {
+    core.warning('Failed to parse the open issues, opening a new one')
+  }
+  const existing = issues.find((issue) => issue.title === title)
+  if (existing?.url) {
+    await exec.exec('gh', ['issue', 'comment', existing.url, '--body', body])
+    return existing.url
+  }
+
+  const args = ['issue', 'create', '--title', title, '--body', body]
+  for (const label of settings.labels) {
+    args.push('--label', label)
+  }
+  for (const assignee of settings.assignees) {
+    args.push('--assignee', assignee)
+  }
+  const { stdout: url } = await capture('gh', args)
+  return url
+}
+
+/**
+ * Update PR flow using git and the gh CLI
+ */
+export const ghClient: UpdatePrClient = {
+  find: findUpdatePr,
+  compare: compareWithBranch,
+  push: commitUpdate,
+  create: createUpdatePr,
+  refresh: refreshUpdatePr,
+  report: reportUpdateFailure
+}
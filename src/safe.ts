@@ -5,13 +5,29 @@
  * that Safe can execute on the Sapphire runtime. This follows the same
  * approach used by Talos for ROFL deployments.
  *
- * Note: This module dynamically imports dependencies to avoid bundling issues.
- * The dependencies must be available at runtime via npm install.
+ * Note: The Oasis SDK is bundled, so exporting a Transaction Builder batch
+ * needs no network access. The Safe SDK is loaded at runtime to avoid bundling
+ * issues and must be installed with npm install before proposing.
  */
 import * as core from '@actions/core'
+import * as oasis from '@oasisprotocol/client'
+import * as oasisRT from '@oasisprotocol/client-rt'
 import * as fs from 'fs'
 import * as path from 'path'
 import { createRequire } from 'module'
+import {
+  DEFAULT_NETWORKS,
+  getNetwork,
+  NetworkRegistry,
+  SafeNetwork
+} from './networks.js'
+import {
+  CallPreview,
+  PreviewCodec,
+  previewCall,
+  previewRows,
+  writePreview
+} from './preview.js'
 
 export interface SafeInputs {
   safePropose: boolean
@@ -23,6 +39,10 @@ export interface SafeInputs {
   grpcUrl: string
   deployment: string
   dryRun: boolean
+  // Networks to propose on, DEFAULT_NETWORKS if not set
+  networks?: NetworkRegistry
+  // Write a Transaction Builder batch file instead of proposing
+  export?: boolean
 }
 
 export interface TransactionFiles {
@@ -30,33 +50,69 @@ export interface TransactionFiles {
   deployFile?: string
 }
 
-// Network configuration for Oasis networks
-const NETWORKS: Record<
-  string,
-  {
-    runtimeId: string
-    chainId: bigint
-    grpcApi: string
-    web3Api: string
-    safeApi: string
+/**
+ * Subcall for a Safe transaction, with the decoded call for review
+ */
+export interface SafeOperation {
+  to: string
+  data: string
+  value: string
+  preview: CallPreview
+}
+
+export interface SafeProposal {
+  // Not set when the transactions were exported instead of proposed
+  safeTxHash?: string
+  // Safe Transaction Builder batch file, when exported
+  batchFile?: string
+  // Decoded calls, also written to previewFile
+  previews: CallPreview[]
+  previewFile: string
+}
+
+/**
+ * Safe Transaction Builder batch, as imported in the Safe web UI
+ */
+export interface TransactionBatch {
+  version: string
+  chainId: string
+  createdAt: number
+  meta: {
+    name: string
+    description: string
+    createdFromSafeAddress: string
   }
-> = {
-  mainnet: {
-    runtimeId:
-      '000000000000000000000000000000000000000000000000f80306c9858e7279',
-    chainId: 23294n,
-    grpcApi: 'https://grpc.oasis.io',
-    web3Api: 'https://sapphire.oasis.io',
-    safeApi: 'https://transaction.safe.oasis.io/api'
-  },
-  testnet: {
-    runtimeId:
-      '000000000000000000000000000000000000000000000000a6d1e3ebf60dff6c',
-    chainId: 23295n,
-    grpcApi: 'https://testnet.grpc.oasis.io',
-    web3Api: 'https://testnet.sapphire.oasis.io',
-    safeApi: 'https://transaction-testnet.safe.oasis.io/api'
+  transactions: Array<{
+    to: string
+    value: string
+    data: string
+    description: string
+  }>
+}
+
+// Batches are written next to the first transaction file as
+// <file>.safe-batch.json
+const BATCH_SUFFIX = '.safe-batch.json'
+
+/**
+ * Get the Safe web UI link to a proposed transaction
+ * @returns The URL, undefined for networks without a known Safe UI
+ */
+export function safeTransactionUrl(
+  networkName: string,
+  safeAddress: string,
+  safeTxHash: string,
+  networks: NetworkRegistry = DEFAULT_NETWORKS
+): string | undefined {
+  const networkInfo = networks[networkName]
+  if (!networkInfo?.safeUi || !networkInfo.shortName) {
+    return undefined
   }
+  const safe = `${networkInfo.shortName}:${safeAddress}`
+  return (
+    `${networkInfo.safeUi}/transactions/tx?safe=${safe}` +
+    `&id=multisig_${safeAddress}_${safeTxHash}`
+  )
 }
 
 /**
@@ -81,104 +137,212 @@ function loadModule(
   }
 }
 
+/**
+ * Log the decoded call so the proposal can be reviewed from the run log
+ */
+function logPreview(preview: CallPreview): void {
+  for (const [label, value] of previewRows(preview)) {
+    core.info(`  ${label}: ${value.split('\n').join('\n    ')}`)
+  }
+}
+
+// SDK wrapper and call builder for each transaction method the action can
+// propose, e.g. rofl.Update is wrapped with new rofl.Wrapper().callUpdate()
+const SAFE_METHODS: Record<
+  string,
+  { wrapper: 'rofl' | 'roflmarket'; call: string }
+> = {
+  'rofl.Create': { wrapper: 'rofl', call: 'callCreate' },
+  'rofl.Update': { wrapper: 'rofl', call: 'callUpdate' },
+  'rofl.Remove': { wrapper: 'rofl', call: 'callRemove' },
+  'roflmarket.InstanceCreate': {
+    wrapper: 'roflmarket',
+    call: 'callInstanceCreate'
+  },
+  'roflmarket.InstanceTopUp': {
+    wrapper: 'roflmarket',
+    call: 'callInstanceTopUp'
+  },
+  'roflmarket.InstanceCancel': {
+    wrapper: 'roflmarket',
+    call: 'callInstanceCancel'
+  },
+  'roflmarket.InstanceExecuteCmds': {
+    wrapper: 'roflmarket',
+    call: 'callInstanceExecuteCmds'
+  }
+}
+
+/**
+ * Wrap a decoded transaction call as an EVM subcall
+ * @param wrappers - Oasis SDK rofl and roflmarket wrappers for the runtime
+ * @param file - Transaction file, for error messages
+ * @throws Error if the method is not supported
+ */
+export function toSubcall(
+  call: { method?: string; body?: unknown } | undefined,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  wrappers: Record<'rofl' | 'roflmarket', any>,
+  file: string
+): { to: string; data: string; value: string } {
+  const method = SAFE_METHODS[call?.method ?? '']
+  if (!call?.method || !method) {
+    throw new Error(
+      `Unsupported transaction method in ${file}: ${call?.method || 'none'}. ` +
+        `Supported methods: ${Object.keys(SAFE_METHODS).join(', ')}`
+    )
+  }
+  const subcall = wrappers[method.wrapper]
+    [method.call]()
+    .setBody(call.body)
+    .toSubcall()
+  return {
+    to: subcall.to,
+    data: subcall.data,
+    value: subcall.value ? subcall.value.toString() : '0'
+  }
+}
+
 /**
  * Generate Safe-compatible subcall transactions from CBOR files
  *
  * This follows the Talos approach:
- * 1. Read CBOR files and extract the call body
- * 2. Use Oasis SDK rofl wrapper to create subcall transactions
+ * 1. Read CBOR files and extract the call
+ * 2. Use the Oasis SDK wrapper for the call's method to create a subcall
  * 3. Return transactions formatted for Safe
  */
 async function generateTransactions(
   files: TransactionFiles,
-  networkName: string,
-  nodeModulesPath?: string
-): Promise<
-  Array<{
-    to: string
-    data: string
-    value: string
-  }>
-> {
-  const networkInfo = NETWORKS[networkName]
-  if (!networkInfo) {
-    throw new Error(
-      `Unknown network: ${networkName}. Supported: mainnet, testnet`
-    )
+  networkInfo: SafeNetwork
+): Promise<SafeOperation[]> {
+  const sapphireRuntimeId = oasis.misc.fromHex(networkInfo.runtimeId)
+  const wrappers = {
+    rofl: new oasisRT.rofl.Wrapper(sapphireRuntimeId),
+    roflmarket: new oasisRT.roflmarket.Wrapper(sapphireRuntimeId)
+  }
+  const codec: PreviewCodec = {
+    toBech32: (prefix, data) => oasis.address.toBech32(prefix, data),
+    fromCBOR: (data) => oasis.misc.fromCBOR(data)
   }
 
-  // Load Oasis SDK modules
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const oasis: any = loadModule('@oasisprotocol/client', nodeModulesPath)
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const oasisRT: any = loadModule('@oasisprotocol/client-rt', nodeModulesPath)
+  const transactions: SafeOperation[] = []
 
-  const sapphireRuntimeId = oasis.misc.fromHex(networkInfo.runtimeId)
-  const rofl = new oasisRT.rofl.Wrapper(sapphireRuntimeId)
+  // Update first, then deploy (roflmarket machine deployments)
+  for (const file of [files.updateFile, files.deployFile]) {
+    if (!file || !fs.existsSync(file)) {
+      continue
+    }
+    core.info(`Processing transaction from: ${file}`)
+    const tx = oasis.misc.fromCBOR(fs.readFileSync(file)) as {
+      call: { method: string; body?: unknown }
+    }
+    const subcall = toSubcall(tx.call, wrappers, file)
 
-  const transactions: Array<{
-    to: string
-    data: string
-    value: string
-  }> = []
-
-  // Process update file
-  if (files.updateFile && fs.existsSync(files.updateFile)) {
-    core.info(`Processing update transaction from: ${files.updateFile}`)
-    const updateData = fs.readFileSync(files.updateFile)
-    const updateCbor = oasis.misc.fromCBOR(updateData)
-
-    // Extract the call body and create a subcall transaction
-    const txUpdateEnclaves = rofl
-      .callUpdate()
-      .setBody(updateCbor.call.body)
-      .toSubcall()
-
-    core.info(`Update subcall: to=${txUpdateEnclaves.to}`)
-    transactions.push({
-      to: txUpdateEnclaves.to,
-      data: txUpdateEnclaves.data,
-      value: txUpdateEnclaves.value ? txUpdateEnclaves.value.toString() : '0'
-    })
+    core.info(`${tx.call.method} subcall: to=${subcall.to}`)
+    const preview = previewCall(tx.call, file, codec)
+    logPreview(preview)
+    transactions.push({ ...subcall, preview })
   }
 
-  // Process deploy file (for roflmarket machine deployments)
-  if (files.deployFile && fs.existsSync(files.deployFile)) {
-    core.info(`Processing deploy transaction from: ${files.deployFile}`)
-    const deployData = fs.readFileSync(files.deployFile)
-    const deployCbor = oasis.misc.fromCBOR(deployData)
-
-    // For deploy transactions, we need to check if it's a roflmarket call
-    // If the CBOR has a method field indicating roflmarket, use that wrapper
-    // Otherwise, treat it as a regular rofl call
-    if (deployCbor.call && deployCbor.call.method) {
-      const method = deployCbor.call.method
-      core.info(`Deploy method: ${method}`)
-
-      if (method.startsWith('roflmarket.')) {
-        // Use roflmarket wrapper
-        const roflmarket = new oasisRT.roflmarket.Wrapper(sapphireRuntimeId)
-        const txDeploy = roflmarket
-          .callInstanceExecuteCmds()
-          .setBody(deployCbor.call.body)
-          .toSubcall()
-
-        transactions.push({
-          to: txDeploy.to,
-          data: txDeploy.data,
-          value: txDeploy.value ? txDeploy.value.toString() : '0'
-        })
-      } else {
-        // Unknown method - error out instead of silently creating invalid subcall
-        throw new Error(
-          `Unsupported deploy CBOR method: ${method}. ` +
-            `Supported methods: rofl.Update, roflmarket.*`
-        )
-      }
-    }
+  return transactions
+}
+
+/**
+ * Describe an operation for signers, e.g. "rofl.Update of rofl1... (update.cbor)"
+ */
+function describeOperation(preview: CallPreview): string {
+  const target =
+    preview.app_id ?? (preview.machine && `machine ${preview.machine}`)
+  return `${preview.method}${target ? ` of ${target}` : ''} (${preview.file})`
+}
+
+/**
+ * Build a Safe Transaction Builder batch from the operations
+ * @param name - Batch name shown in the Transaction Builder
+ */
+export function transactionBatch(
+  chainId: bigint,
+  safeAddress: string,
+  name: string,
+  transactions: SafeOperation[],
+  createdAt: number = Date.now()
+): TransactionBatch {
+  const descriptions = transactions.map((tx) => describeOperation(tx.preview))
+  return {
+    version: '1.0',
+    chainId: chainId.toString(),
+    createdAt,
+    meta: {
+      name,
+      description: descriptions.join('\n'),
+      createdFromSafeAddress: safeAddress
+    },
+    transactions: transactions.map((tx, i) => ({
+      to: tx.to,
+      value: tx.value,
+      data: tx.data,
+      description: descriptions[i]
+    }))
   }
+}
 
-  return transactions
+/**
+ * Write the transactions as a Safe Transaction Builder batch file
+ *
+ * Signers import the file in the Safe UI, so nothing is signed or sent here:
+ * the Safe, its RPC endpoint and the transaction service are never contacted
+ * and no proposer key is needed. Only the bundled Oasis SDK is used, so nothing
+ * is installed either.
+ */
+export async function exportTransactionBatch(
+  inputs: SafeInputs,
+  files: TransactionFiles,
+  networkName: string
+): Promise<SafeProposal> {
+  core.info('Exporting transactions for the Safe Transaction Builder...')
+
+  const networkInfo = getNetwork(
+    inputs.networks ?? DEFAULT_NETWORKS,
+    networkName
+  )
+  const chainId = inputs.safeChainId
+    ? BigInt(inputs.safeChainId)
+    : networkInfo.chainId
+  if (!chainId) {
+    throw new Error(
+      `Network ${networkName} has no chain_id (or safe_chain_id). ` +
+        'Set it in safe_networks_file or with the Safe input.'
+    )
+  }
+
+  const transactions = await generateTransactions(files, networkInfo)
+  if (transactions.length === 0) {
+    throw new Error('No transaction files found to export')
+  }
+
+  const previews = transactions.map((tx) => tx.preview)
+  const previewFile = writePreview({
+    network: networkName,
+    safe_address: inputs.safeAddress,
+    calls: previews
+  })
+  core.info(`Transaction preview written to ${previewFile}`)
+
+  const batch = transactionBatch(
+    chainId,
+    inputs.safeAddress,
+    `ROFL ${inputs.deployment || networkName}`,
+    transactions
+  )
+  const batchFile = `${previews[0].file}${BATCH_SUFFIX}`
+  fs.writeFileSync(batchFile, `${JSON.stringify(batch, null, 2)}\n`)
+  core.info(
+    `Transaction Builder batch with ${transactions.length} operation(s) written to ${batchFile}`
+  )
+  core.info(
+    'Import it in the Safe web UI with Apps > Transaction Builder to sign it.'
+  )
+  return { batchFile, previews, previewFile }
 }
 
 /**
@@ -189,13 +353,29 @@ export async function proposeToSafe(
   files: TransactionFiles,
   networkName: string,
   nodeModulesPath?: string
-): Promise<string> {
+): Promise<SafeProposal> {
   core.info('Proposing transactions to Safe multisig...')
 
-  const networkInfo = NETWORKS[networkName]
-  if (!networkInfo) {
+  const networkInfo = getNetwork(
+    inputs.networks ?? DEFAULT_NETWORKS,
+    networkName
+  )
+
+  // Use custom values if provided, otherwise use network defaults
+  const rpcUrl = inputs.safeRpcUrl || networkInfo.web3Api
+  const serviceUrl = inputs.safeServiceUrl || networkInfo.safeApi
+  const chainId = inputs.safeChainId
+    ? BigInt(inputs.safeChainId)
+    : networkInfo.chainId
+  const missing = [
+    !rpcUrl && 'web3 (or safe_rpc_url)',
+    !serviceUrl && 'safe_service (or safe_service_url)',
+    !chainId && 'chain_id (or safe_chain_id)'
+  ].filter((field) => field)
+  if (missing.length > 0) {
     throw new Error(
-      `Unknown network: ${networkName}. Supported: mainnet, testnet`
+      `Network ${networkName} has no ${missing.join(', ')}. ` +
+        'Set it in safe_networks_file or with the Safe input.'
     )
   }
 
@@ -224,26 +404,26 @@ export async function proposeToSafe(
   const OperationType = typesKit.OperationType
 
   // Generate subcall transactions from CBOR files
-  const transactions = await generateTransactions(
-    files,
-    networkName,
-    nodeModulesPath
-  )
+  const transactions = await generateTransactions(files, networkInfo)
 
   if (transactions.length === 0) {
     throw new Error('No transaction files found to propose')
   }
 
+  // Written before anything is signed, so signers can review the calls even
+  // if the proposal fails
+  const previews = transactions.map((tx) => tx.preview)
+  const previewFile = writePreview({
+    network: networkName,
+    safe_address: inputs.safeAddress,
+    calls: previews
+  })
+  core.info(`Transaction preview written to ${previewFile}`)
+
   core.info(
     `Creating Safe transaction with ${transactions.length} operation(s)`
   )
 
-  // Use custom values if provided, otherwise use network defaults
-  const rpcUrl = inputs.safeRpcUrl || networkInfo.web3Api
-  const serviceUrl = inputs.safeServiceUrl || networkInfo.safeApi
-  const chainId = inputs.safeChainId
-    ? BigInt(inputs.safeChainId)
-    : networkInfo.chainId
   core.info(`Using RPC URL: ${rpcUrl}`)
   core.info(`Using Safe service URL: ${serviceUrl}`)
   core.info(`Using chain ID: ${chainId}`)
@@ -287,13 +467,12 @@ export async function proposeToSafe(
 
   // Create Safe transaction with proper operation type and nonce
   const safeTransaction = await protocolKit.createTransaction({
-    transactions: transactions.map(
-      (tx: { to: string; data: string; value: string }) => ({
-        ...tx,
-        value: tx.value || '0',
-        operation: OperationType.Call
-      })
-    ),
+    transactions: transactions.map((tx) => ({
+      to: tx.to,
+      data: tx.data,
+      value: tx.value || '0',
+      operation: OperationType.Call
+    })),
     options: { nonce }
   })
 
@@ -323,7 +502,7 @@ export async function proposeToSafe(
     }
     core.info('Skipping actual proposal to Safe service (dry run).')
     core.info('=== DRY RUN COMPLETE ===')
-    return safeTxHash
+    return { safeTxHash, previews, previewFile }
   }
 
   // Propose to Safe Transaction Service with retry logic
@@ -346,7 +525,7 @@ export async function proposeToSafe(
 
       core.info(`Transaction proposed successfully!`)
       core.info(`Safe TX Hash: ${safeTxHash}`)
-      return safeTxHash
+      return { safeTxHash, previews, previewFile }
     } catch (error) {
       retryCount++
       const errorMessage =
@@ -379,7 +558,7 @@ export async function runSafeProposal(
   files: TransactionFiles,
   networkName: string,
   nodeModulesPath?: string
-): Promise<string | undefined> {
+): Promise<SafeProposal | undefined> {
   if (!inputs.safePropose) {
     return undefined
   }
@@ -389,6 +568,10 @@ export async function runSafeProposal(
     throw new Error('safe_address is required when safe_propose is enabled')
   }
 
+  if (inputs.export) {
+    return exportTransactionBatch(inputs, files, networkName)
+  }
+
   if (!inputs.safeProposerKey) {
     throw new Error(
       'safe_proposer_key is required when safe_propose is enabled'
@@ -0,0 +1,266 @@
+/**
+ * Job summary for action runs
+ *
+ * Records what each step did and writes it to the job summary, so approvers
+ * can review a run without reading the raw logs.
+ */
+import * as core from '@actions/core'
+import { InstalledCLI } from './cli.js'
+import { PlanStep, stepTitle } from './plan.js'
+import { NetworkRegistry } from './networks.js'
+import { CallPreview, previewRows } from './preview.js'
+import { safeTransactionUrl } from './safe.js'
+
+/**
+ * Results for a single deployment, exposed in the deployment_results output
+ */
+export interface DeploymentResult {
+  build_output?: string
+  bundle_digest?: string
+  provenance_file?: string
+  attestation_file?: string
+  enclave_ids?: string[]
+  app_id?: string
+  update_file?: string
+  deploy_file?: string
+  machine_id?: string
+  provider?: string
+  safe_tx_hash?: string
+  safe_batch_file?: string
+  safe_preview_file?: string
+}
+
+// pending: not reached because an earlier step failed
+export type StepStatus = 'ran' | 'skipped' | 'failed' | 'pending'
+
+export interface StepRecord {
+  step: PlanStep
+  status: StepStatus
+  durationMs?: number
+}
+
+export interface RunReport {
+  cli?: InstalledCLI
+  network: string
+  // Network of each deployment, report.network if not set
+  deploymentNetworks?: Record<string, string>
+  deployments: string[]
+  steps: StepRecord[]
+  results: Record<string, DeploymentResult>
+  safeAddress?: string
+  // Networks for Safe transaction links, the built-in ones if not set
+  safeNetworks?: NetworkRegistry
+  // Decoded calls of the Safe proposals by deployment
+  safePreviews: Record<string, CallPreview[]>
+}
+
+/**
+ * Create the report for a plan, with every step pending (or skipped)
+ */
+export function createReport(
+  steps: PlanStep[],
+  network: string,
+  deployments: string[],
+  safeAddress?: string
+): RunReport {
+  return {
+    network,
+    deployments,
+    steps: steps.map((step) => ({
+      step,
+      status: step.skipped ? 'skipped' : 'pending'
+    })),
+    results: Object.fromEntries(deployments.map((name) => [name, {}])),
+    safeAddress,
+    safePreviews: {}
+  }
+}
+
+/**
+ * Run a step and record its status and duration
+ * @throws The step's error, after recording it as failed
+ */
+export async function recordStep(
+  record: StepRecord,
+  run: () => Promise<void>
+): Promise<void> {
+  const started = Date.now()
+  try {
+    await run()
+    if (record.status !== 'skipped') {
+      record.status = 'ran'
+    }
+  } catch (error) {
+    record.status = 'failed'
+    throw error
+  } finally {
+    if (record.status !== 'skipped') {
+      record.durationMs = Date.now() - started
+    }
+  }
+}
+
+/**
+ * Mark planned steps as skipped when the run decides not to reach them
+ */
+export function skipSteps(records: StepRecord[], reason: string): void {
+  for (const record of records) {
+    record.status = 'skipped'
+    record.step = { ...record.step, skipped: reason }
+  }
+}
+
+/**
+ * Describe the installed CLI version and where it came from
+ */
+export function describeCLIVersion(cli: InstalledCLI): string {
+  switch (cli.source) {
+    case 'auto':
+      return `${cli.version} (auto, tooling.version ${cli.requested} in rofl.yaml)`
+    case 'latest':
+      return `${cli.version} (latest release)`
+    case 'pinned':
+      return `${cli.version} (pinned, cli_version ${cli.requested})`
+  }
+}
+
+/**
+ * Format a duration as seconds (e.g. 12.3s), or minutes and seconds above a
+ * minute (e.g. 2m 05s)
+ */
+export function formatDuration(ms: number): string {
+  const seconds = ms / 1000
+  if (seconds < 60) {
+    return `${seconds.toFixed(1)}s`
+  }
+  const minutes = Math.floor(seconds / 60)
+  const rest = Math.floor(seconds % 60)
+  return `${minutes}m ${String(rest).padStart(2, '0')}s`
+}
+
+function statusText(record: StepRecord): string {
+  switch (record.status) {
+    case 'ran':
+      return 'Ran'
+    case 'skipped':
+      return `Skipped: ${record.step.skipped}`
+    case 'failed':
+      return 'Failed'
+    case 'pending':
+      return 'Not run'
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
+
+function code(value?: string): string {
+  return value ? `<code>${value}</code>` : ''
+}
+
+/**
+ * Show the Safe transaction hash, linked to the Safe web UI when possible
+ */
+function safeTransactionCell(
+  report: RunReport,
+  deployment: string,
+  safeTxHash?: string
+): string {
+  if (!safeTxHash) {
+    return ''
+  }
+  const url =
+    report.safeAddress &&
+    safeTransactionUrl(
+      report.deploymentNetworks?.[deployment] ?? report.network,
+      report.safeAddress,
+      safeTxHash,
+      report.safeNetworks
+    )
+  return url ? `<a href="${url}">${code(safeTxHash)}</a>` : code(safeTxHash)
+}
+
+/**
+ * Write the run report to the job summary
+ */
+export async function writeRunSummary(report: RunReport): Promise<void> {
+  core.summary
+    .addHeading('ROFL action summary')
+    .addTable([
+      [
+        { data: 'Oasis CLI', header: true },
+        report.cli ? describeCLIVersion(report.cli) : 'Not installed'
+      ],
+      [{ data: 'Network', header: true }, code(report.network)],
+      [
+        { data: 'Deployment', header: true },
+        report.deployments.map((name) => code(name)).join(', ')
+      ]
+    ])
+    .addHeading('Steps', 3)
+    .addTable([
+      [
+        { data: 'Step', header: true },
+        { data: 'Deployment', header: true },
+        { data: 'Status', header: true },
+        { data: 'Duration', header: true }
+      ],
+      ...report.steps.map((record) => [
+        stepTitle(record.step),
+        record.step.deployment || '',
+        statusText(record),
+        record.durationMs === undefined ? '' : formatDuration(record.durationMs)
+      ])
+    ])
+
+  const results = Object.entries(report.results).filter(
+    ([, result]) => Object.keys(result).length > 0
+  )
+  if (results.length > 0) {
+    core.summary.addHeading('Artifacts', 3).addTable([
+      [
+        { data: 'Deployment', header: true },
+        { data: 'Bundle', header: true },
+        { data: 'Update transaction', header: true },
+        { data: 'Deploy transaction', header: true },
+        { data: 'Safe transaction', header: true }
+      ],
+      ...results.map(([name, result]) => [
+        name,
+        [code(result.build_output), code(result.bundle_digest)]
+          .filter((cell) => cell)
+          .join('<br>'),
+        code(result.update_file),
+        code(result.deploy_file),
+        safeTransactionCell(report, name, result.safe_tx_hash) ||
+          code(result.safe_batch_file)
+      ])
+    ])
+  }
+
+  // Decoded calls, so signers can check what they approve in the Safe UI
+  for (const [name, previews] of Object.entries(report.safePreviews)) {
+    core.summary.addHeading(`Safe transaction preview: ${name}`, 3)
+    for (const preview of previews) {
+      core.summary.addTable([
+        [
+          { data: 'Field', header: true },
+          { data: 'Value', header: true }
+        ],
+        ...previewRows(preview).map(([label, value]) => [
+          label,
+          value
+            .split('\n')
+            .map((line) => code(escapeHtml(line)))
+            .join('<br>')
+        ])
+      ])
+    }
+  }
+
+  await core.summary.write()
+}
@@ -0,0 +1,250 @@
+/**
+ * Artifact change report for rofl upgrade
+ *
+ * Compares the artifacts in rofl.yaml before and after oasis rofl upgrade, so
+ * update pull requests list what changed instead of a raw YAML diff.
+ */
+import { RoflManifest } from './manifest.js'
+
+// Artifacts in rofl.yaml, in report order
+const ARTIFACTS: Array<{
+  name: string
+  get: (manifest: RoflManifest) => string | undefined
+}> = [
+  { name: 'firmware', get: (m) => m.artifacts?.firmware },
+  { name: 'kernel', get: (m) => m.artifacts?.kernel },
+  { name: 'stage2', get: (m) => m.artifacts?.stage2 },
+  { name: 'container runtime', get: (m) => m.artifacts?.container?.runtime },
+  { name: 'compose', get: (m) => m.artifacts?.container?.compose }
+]
+
+// Title of the issue opened when the upgraded manifest fails to build
+export const BUILD_FAILURE_TITLE = 'ROFL artifact update failed to build'
+
+// Build log lines included in the failure issue, and the character limit that
+// keeps the issue body below GitHub's 65536 character limit
+const FAILURE_LOG_LINES = 200
+const FAILURE_LOG_MAX_CHARS = 50_000
+
+// Release version in an artifact URL, e.g. .../download/v0.5.0/stage1.bin or
+// .../download/rofl-containers%2Fv0.5.2/rofl-containers
+const VERSION_IN_URL = /(?:\/|%2F)v?(\d+\.\d+\.\d+[^/%]*)\//i
+
+export interface ArtifactRef {
+  uri: string
+  // SHA-256 after the # in the artifact reference, if any
+  digest?: string
+  version?: string
+}
+
+export interface ArtifactChange {
+  // App directory, when several apps are upgraded (manifest_glob)
+  app?: string
+  artifact: string
+  old?: ArtifactRef
+  new?: ArtifactRef
+}
+
+/**
+ * Upgrade of one app
+ */
+export interface AppUpdate {
+  // App directory (manifest_glob only)
+  app?: string
+  // Manifest files, relative to the working directory
+  files: string[]
+  changes: ArtifactChange[]
+  // Manifest after the upgrade
+  manifest?: RoflManifest
+  // Enclave IDs per deployment, when the upgraded manifest was built
+  enclaveIds?: Record<string, string[]>
+}
+
+/**
+ * Split an artifact reference (<uri>#<sha256>) into its parts
+ */
+export function parseArtifact(ref: string): ArtifactRef {
+  const [uri, digest] = ref.split('#', 2)
+  const version = VERSION_IN_URL.exec(uri)?.[1]
+  return {
+    uri,
+    ...(digest ? { digest } : {}),
+    ...(version ? { version } : {})
+  }
+}
+
+/**
+ * List the artifacts that differ between two manifests
+ */
+export function diffArtifacts(
+  before: RoflManifest,
+  after: RoflManifest
+): ArtifactChange[] {
+  const changes: ArtifactChange[] = []
+  for (const { name, get } of ARTIFACTS) {
+    const oldRef = get(before)
+    const newRef = get(after)
+    if (oldRef === newRef) {
+      continue
+    }
+    changes.push({
+      artifact: name,
+      ...(oldRef ? { old: parseArtifact(oldRef) } : {}),
+      ...(newRef ? { new: parseArtifact(newRef) } : {})
+    })
+  }
+  return changes
+}
+
+/**
+ * Describe one side of a change for the table: the version if known, the
+ * URI, and the shortened digest
+ */
+function describeRef(ref?: ArtifactRef): string {
+  if (!ref) {
+    return '_none_'
+  }
+  const parts = [ref.version ? `**${ref.version}**` : '', `\`${ref.uri}\``]
+  if (ref.digest) {
+    parts.push(`sha256 \`${ref.digest.slice(0, 12)}…\``)
+  }
+  return parts.filter((part) => part).join('<br>')
+}
+
+/**
+ * Format the changes as a Markdown table
+ */
+export function formatArtifactTable(changes: ArtifactChange[]): string {
+  if (changes.length === 0) {
+    return '_No artifact changes found in rofl.yaml._'
+  }
+  return [
+    '| Artifact | Old | New |',
+    '| -------- | --- | --- |',
+    ...changes.map(
+      (change) =>
+        `| ${change.app ? `\`${change.app}\` ` : ''}${change.artifact} | ` +
+        `${describeRef(change.old)} | ${describeRef(change.new)} |`
+    )
+  ].join('\n')
+}
+
+/**
+ * List the changes of several apps together, each tagged with its app
+ */
+export function allChanges(updates: AppUpdate[]): ArtifactChange[] {
+  return updates.flatMap((update) =>
+    update.changes.map((change) =>
+      update.app ? { app: update.app, ...change } : change
+    )
+  )
+}
+
+/**
+ * Build the update pull request body
+ * @param updates - Upgraded apps, one unnamed update without manifest_glob
+ */
+export function updatePrBody(updates: AppUpdate[]): string {
+  const apps = updates
+    .filter((update) => update.app)
+    .map((update) => `\`${update.app}\``)
+  const built = updates.filter((update) => update.enclaveIds)
+  const enclaves =
+    built.length > 0
+      ? [
+          '## Enclave IDs',
+          '',
+          'The upgraded manifest was built successfully and rofl.yaml records ' +
+            'the new enclave IDs:',
+          '',
+          ...built.flatMap((update) =>
+            Object.entries(update.enclaveIds ?? {}).map(
+              ([deployment, ids]) =>
+                `- ${update.app ? `\`${update.app}\` ` : ''}\`${deployment}\`: ` +
+                (ids.map((id) => `\`${id}\``).join(', ') || '_none found_')
+            )
+          ),
+          ''
+        ]
+      : []
+  return [
+    '## Summary',
+    '',
+    apps.length > 0
+      ? `This PR updates the rofl.yaml artifacts of ${apps.join(', ')} to their latest versions.`
+      : 'This PR updates rofl.yaml artifacts to their latest versions.',
+    '',
+    '## Updated artifacts',
+    '',
+    ...updates.flatMap((update) => [
+      ...(update.app ? [`### \`${update.app}\``, ''] : []),
+      formatArtifactTable(update.changes),
+      ''
+    ]),
+    ...enclaves,
+    'Generated by `oasis rofl upgrade`.',
+    '',
+    '🤖 Generated by ROFL GitHub Action'
+  ].join('\n')
+}
+
+/**
+ * Keep the end of a build log, where the error is
+ */
+export function tailLog(log: string): string {
+  const lines = log.trimEnd().split(/\r?\n/)
+  let tail = lines.slice(-FAILURE_LOG_LINES).join('\n')
+  if (tail.length > FAILURE_LOG_MAX_CHARS) {
+    tail = tail.slice(-FAILURE_LOG_MAX_CHARS)
+  }
+  return tail.length < log.trimEnd().length ? `…\n${tail}` : tail
+}
+
+/**
+ * Build the body of the issue opened when the upgraded manifest fails to build
+ * @param runUrl - Workflow run with the full log, if known
+ */
+export function buildFailureBody(
+  update: AppUpdate,
+  deployment: string,
+  log: string,
+  runUrl?: string
+): string {
+  const target = update.app
+    ? `deployment \`${deployment}\` of \`${update.app}\``
+    : `deployment \`${deployment}\``
+  return [
+    `\`oasis rofl upgrade\` found newer artifacts, but ${target} ` +
+      'failed to build with them, so no update PR was opened.',
+    '',
+    '## Updated artifacts',
+    '',
+    formatArtifactTable(update.changes),
+    '',
+    '## Build log',
+    '',
+    ...(runUrl ? [`Full log: ${runUrl}`, ''] : []),
+    '```text',
+    tailLog(log),
+    '```',
+    '',
+    '🤖 Generated by ROFL GitHub Action'
+  ].join('\n')
+}
+
+/**
+ * Build the comment left on an update PR when it is refreshed
+ * @param changes - Changes since the last refresh
+ */
+export function refreshComment(changes: ArtifactChange[]): string {
+  return [
+    'Refreshed with the latest `oasis rofl upgrade`.',
+    '',
+    changes.length > 0
+      ? 'Artifacts changed since the last refresh:'
+      : 'No artifacts changed since the last refresh, only other rofl.yaml fields.',
+    ...(changes.length > 0 ? ['', formatArtifactTable(changes)] : []),
+    '',
+    '🤖 Generated by ROFL GitHub Action'
+  ].join('\n')
+}